@@ -0,0 +1,319 @@
+import type { Point, StrokeLine } from '.';
+import { escapeAttr, pointsToPathData, round } from './exportSVG';
+import { clearCanvas, strokePoints, tracePoints } from './utils';
+
+export type BuiltinBrushType =
+  | 'round'
+  | 'marker'
+  | 'highlighter'
+  | 'calligraphy'
+  | 'airbrush';
+
+// custom brushes go by the name they were registered with
+export type BrushType = BuiltinBrushType | (string & Record<never, never>);
+
+/**
+ * Paints the strokes of one brush type. `draw` gets the whole line again
+ * with every new point while drawing, so what it paints may only depend
+ * on the line.
+ */
+export type Brush = {
+  draw: (ctx: CanvasRenderingContext2D, line: StrokeLine) => void;
+  // svg markup of the line, svg exports draw a round stroke without it
+  toSVG?: (line: StrokeLine) => string;
+  // of new lines when the brush props don't set one
+  opacity?: number;
+  // new lines get a `seed` for `createRandom`
+  seeded?: boolean;
+};
+
+export const DEFAULT_CALLIGRAPHY_ANGLE = Math.PI / 4;
+
+/**
+ * Random numbers between 0 and 1, the same sequence for the same seed
+ * (mulberry32).
+ */
+export function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createSeed() {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// half the width of the stroke at `p`
+function getHalfWidth(line: StrokeLine, p: Point) {
+  return p.width !== undefined ? p.width / 2 : line.brushRadius;
+}
+
+// even width strokes, pressure doesn't apply
+function drawEven(ctx: CanvasRenderingContext2D, line: StrokeLine) {
+  ctx.strokeStyle = line.brushColor;
+  ctx.lineWidth = line.brushRadius * 2;
+  ctx.beginPath();
+  if (tracePoints(ctx, line.points)) {
+    ctx.stroke();
+  }
+}
+
+function evenToSVG(line: StrokeLine, cap: CanvasLineCap) {
+  const d = pointsToPathData(line.points);
+  if (!d) return '';
+  return `<path d="${d}" fill="none" stroke="${escapeAttr(
+    line.brushColor,
+  )}" stroke-width="${round(
+    line.brushRadius * 2,
+  )}" stroke-linecap="${cap}" stroke-linejoin="round"/>`;
+}
+
+/**
+ * The areas the flat calligraphy nib sweeps between the points, all
+ * wound the same way so they fill as one shape.
+ */
+function getNibQuads(line: StrokeLine) {
+  const angle = line.angle ?? DEFAULT_CALLIGRAPHY_ANGLE;
+  const quads: Array<Array<Point>> = [];
+  for (let i = 1; i < line.points.length; i++) {
+    const a = line.points[i - 1];
+    const b = line.points[i];
+    if (!a || !b) continue;
+    const nib = (p: Point) => {
+      const half = getHalfWidth(line, p);
+      return { x: Math.cos(angle) * half, y: Math.sin(angle) * half };
+    };
+    const na = nib(a);
+    const nb = nib(b);
+    const quad = [
+      { x: a.x - na.x, y: a.y - na.y },
+      { x: a.x + na.x, y: a.y + na.y },
+      { x: b.x + nb.x, y: b.y + nb.y },
+      { x: b.x - nb.x, y: b.y - nb.y },
+    ];
+    // shoelace, negative when wound the other way
+    const area = quad.reduce((sum, p, j) => {
+      const q = quad[(j + 1) % quad.length] ?? p;
+      return sum + p.x * q.y - q.x * p.y;
+    }, 0);
+    quads.push(area < 0 ? quad.reverse() : quad);
+  }
+  return quads;
+}
+
+// strokes moving along the nib still leave a hairline
+function getHairline(line: StrokeLine) {
+  return Math.max(1, line.brushRadius * 0.15);
+}
+
+/**
+ * Dots sprayed around the points, denser in the middle. The same line
+ * always gets the same dots, new points only add dots at the end.
+ */
+function sprayDots(
+  line: StrokeLine,
+  dot: (x: number, y: number, size: number) => void,
+) {
+  const random = createRandom(line.seed ?? 0);
+  const size = Math.max(1, line.brushRadius / 8);
+  const spacing = Math.max(1, line.brushRadius / 3);
+  const sprayAt = (p: Point) => {
+    const radius = getHalfWidth(line, p);
+    const count = Math.max(4, Math.round(radius));
+    for (let i = 0; i < count; i++) {
+      const angle = random() * Math.PI * 2;
+      const distance = random() * radius;
+      dot(
+        p.x + Math.cos(angle) * distance,
+        p.y + Math.sin(angle) * distance,
+        size,
+      );
+    }
+  };
+
+  const [first] = line.points;
+  if (!first) return;
+  sprayAt(first);
+  for (let i = 1; i < line.points.length; i++) {
+    const a = line.points[i - 1];
+    const b = line.points[i];
+    if (!a || !b) continue;
+    const steps = Math.max(
+      1,
+      Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) / spacing),
+    );
+    for (let step = 1; step <= steps; step++) {
+      const t = step / steps;
+      sprayAt({
+        x: a.x + (b.x - a.x) * t,
+        y: a.y + (b.y - a.y) * t,
+        width: b.width,
+      });
+    }
+  }
+}
+
+// the dots build up where the spray passes several times
+const AIRBRUSH_DOT_ALPHA = 0.3;
+
+const roundBrush: Brush = {
+  draw(ctx, line) {
+    ctx.lineJoin = 'round';
+    ctx.lineCap = 'round';
+    ctx.strokeStyle = line.brushColor;
+    strokePoints(ctx, line.points, line.brushRadius * 2);
+  },
+};
+
+const brushes = new Map<string, Brush>([
+  ['round', roundBrush],
+  [
+    // felt tip, even and a little see-through
+    'marker',
+    {
+      opacity: 0.85,
+      draw(ctx, line) {
+        ctx.lineJoin = 'round';
+        ctx.lineCap = 'round';
+        drawEven(ctx, line);
+      },
+      toSVG: (line) => evenToSVG(line, 'round'),
+    },
+  ],
+  [
+    'highlighter',
+    {
+      opacity: 0.4,
+      draw(ctx, line) {
+        ctx.lineJoin = 'round';
+        ctx.lineCap = 'butt';
+        drawEven(ctx, line);
+      },
+      toSVG: (line) => evenToSVG(line, 'butt'),
+    },
+  ],
+  [
+    'calligraphy',
+    {
+      draw(ctx, line) {
+        ctx.fillStyle = line.brushColor;
+        ctx.beginPath();
+        getNibQuads(line).forEach(([first, ...rest]) => {
+          if (!first) return;
+          ctx.moveTo(first.x, first.y);
+          rest.forEach((p) => ctx.lineTo(p.x, p.y));
+          ctx.closePath();
+        });
+        ctx.fill();
+        ctx.lineJoin = 'round';
+        ctx.lineCap = 'round';
+        ctx.strokeStyle = line.brushColor;
+        ctx.lineWidth = getHairline(line);
+        ctx.beginPath();
+        if (tracePoints(ctx, line.points)) {
+          ctx.stroke();
+        }
+      },
+      toSVG(line) {
+        const color = escapeAttr(line.brushColor);
+        const d = getNibQuads(line)
+          .map(
+            (quad) =>
+              `M${quad.map((p) => `${round(p.x)} ${round(p.y)}`).join('L')}Z`,
+          )
+          .join('');
+        const hairline = pointsToPathData(line.points);
+        return (
+          (d ? `<path d="${d}" fill="${color}"/>` : '') +
+          (hairline
+            ? `<path d="${hairline}" fill="none" stroke="${color}" stroke-width="${round(
+                getHairline(line),
+              )}" stroke-linecap="round" stroke-linejoin="round"/>`
+            : '')
+        );
+      },
+    },
+  ],
+  [
+    'airbrush',
+    {
+      seeded: true,
+      draw(ctx, line) {
+        ctx.fillStyle = line.brushColor;
+        ctx.globalAlpha *= AIRBRUSH_DOT_ALPHA;
+        sprayDots(line, (x, y, size) => {
+          ctx.fillRect(x - size / 2, y - size / 2, size, size);
+        });
+      },
+      toSVG(line) {
+        let rects = '';
+        sprayDots(line, (x, y, size) => {
+          rects += `<rect x="${round(x - size / 2)}" y="${round(
+            y - size / 2,
+          )}" width="${round(size)}" height="${round(size)}"/>`;
+        });
+        return `<g fill="${escapeAttr(
+          line.brushColor,
+        )}" fill-opacity="${AIRBRUSH_DOT_ALPHA}">${rects}</g>`;
+      },
+    },
+  ],
+]);
+
+/**
+ * Make `type` available as a brush type, replaces the brush registered
+ * under that name before.
+ */
+export function registerBrush(type: string, brush: Brush) {
+  brushes.set(type, brush);
+}
+
+// unknown types paint round strokes
+export function getBrush(type?: BrushType) {
+  return (type !== undefined && brushes.get(type)) || roundBrush;
+}
+
+let scratch: HTMLCanvasElement | null = null;
+
+/**
+ * Paint a brush stroke. Below full opacity it gets painted on a scratch
+ * canvas first and laid down at once, so it doesn't get darker where it
+ * crosses itself.
+ */
+export function drawStroke(ctx: CanvasRenderingContext2D, line: StrokeLine) {
+  const brush = getBrush(line.brushType);
+  const opacity = line.opacity ?? 1;
+  if (opacity >= 1) {
+    ctx.save();
+    brush.draw(ctx, line);
+    ctx.restore();
+    return;
+  }
+
+  scratch = scratch ?? document.createElement('canvas');
+  if (
+    scratch.width !== ctx.canvas.width ||
+    scratch.height !== ctx.canvas.height
+  ) {
+    scratch.width = ctx.canvas.width;
+    scratch.height = ctx.canvas.height;
+  }
+  const scratchCtx = scratch.getContext('2d');
+  if (!scratchCtx) return;
+  clearCanvas(scratch);
+  scratchCtx.save();
+  scratchCtx.setTransform(ctx.getTransform());
+  brush.draw(scratchCtx, line);
+  scratchCtx.restore();
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha *= opacity;
+  ctx.drawImage(scratch, 0, 0);
+  ctx.restore();
+}
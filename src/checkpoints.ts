@@ -0,0 +1,108 @@
+import type { Line } from '.';
+
+/**
+ * Bitmap of the drawing canvas after `lines` were painted.
+ * `lines` keeps the exact line objects so a checkpoint is only reused
+ * for a list that starts with the very same lines.
+ */
+export type Checkpoint = {
+  lines: Array<Line>;
+  bitmap: HTMLCanvasElement;
+  bytes: number;
+};
+
+export type CheckpointProps = {
+  // take a snapshot every `interval` lines
+  interval?: number;
+  // max bytes of bitmap memory, the oldest snapshots are dropped first
+  maxMemory?: number;
+};
+
+export const DEFAULT_CHECKPOINT_INTERVAL = 20;
+export const DEFAULT_CHECKPOINT_MEMORY = 64 * 1024 * 1024;
+
+function startsWith(lines: Array<Line>, prefix: Array<Line>) {
+  if (prefix.length > lines.length) return false;
+  for (let i = prefix.length - 1; i >= 0; i--) {
+    if (lines[i] !== prefix[i]) return false;
+  }
+  return true;
+}
+
+function snapshot(canvas: HTMLCanvasElement) {
+  const bitmap = document.createElement('canvas');
+  bitmap.width = canvas.width;
+  bitmap.height = canvas.height;
+  bitmap.getContext('2d')?.drawImage(canvas, 0, 0);
+  return bitmap;
+}
+
+/**
+ * The checkpoint covering the longest prefix of `lines`.
+ */
+export function findCheckpoint(
+  checkpoints: Array<Checkpoint>,
+  lines: Array<Line>,
+) {
+  let best: Checkpoint | undefined;
+  checkpoints.forEach((checkpoint) => {
+    if (
+      checkpoint.lines.length > (best?.lines.length ?? 0) &&
+      startsWith(lines, checkpoint.lines)
+    ) {
+      best = checkpoint;
+    }
+  });
+  return best;
+}
+
+/**
+ * Snapshot `canvas` when `lines` reached the next interval, then drop
+ * snapshots until the memory budget fits, stale ones (not matching the
+ * current lines anymore) go first.
+ */
+export function addCheckpoint(
+  checkpoints: Array<Checkpoint>,
+  lines: Array<Line>,
+  canvas: HTMLCanvasElement,
+  {
+    interval = DEFAULT_CHECKPOINT_INTERVAL,
+    maxMemory = DEFAULT_CHECKPOINT_MEMORY,
+  }: CheckpointProps = {},
+) {
+  if (!lines.length || lines.length % interval !== 0) return;
+  // replaying through a known state doesn't need a new snapshot
+  if (findCheckpoint(checkpoints, lines)?.lines.length === lines.length) {
+    return;
+  }
+
+  const bytes = canvas.width * canvas.height * 4;
+  if (bytes > maxMemory) return;
+
+  checkpoints.push({ lines: [...lines], bitmap: snapshot(canvas), bytes });
+
+  let used = checkpoints.reduce((sum, c) => sum + c.bytes, 0);
+  while (used > maxMemory) {
+    const staleIndex = checkpoints.findIndex(
+      (c) => !startsWith(lines, c.lines),
+    );
+    const [dropped] = checkpoints.splice(staleIndex === -1 ? 0 : staleIndex, 1);
+    used -= dropped?.bytes ?? 0;
+  }
+}
+
+/**
+ * Paint a checkpoint onto the drawing canvas, the caller replays the lines
+ * after `checkpoint.lines`.
+ */
+export function restoreCheckpoint(
+  ctx: CanvasRenderingContext2D,
+  checkpoint: Checkpoint,
+) {
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.drawImage(checkpoint.bitmap, 0, 0);
+  ctx.restore();
+}
@@ -0,0 +1,214 @@
+import type { Line, LineProps, Point } from '.';
+import type { HistoryCommand } from './history';
+import type { Layer } from './layers';
+import { createId } from './utils';
+
+/**
+ * Orders the operations of several canvases the same way on each of
+ * them: by lamport clock, ties broken by client id.
+ */
+export type OperationStamp = {
+  clientId: string;
+  clock: number;
+};
+
+/**
+ * What a canvas did, for the other canvases showing the same drawing.
+ * Strokes are announced by `stroke-begin`, grow with `stroke-points` and
+ * turn into their line, if any, with `stroke-end`. Lines are identified
+ * by their `id`, other changes to them come as `change`, or as `replace`
+ * with every line when some have no id. `layers` carries the layer stack
+ * after it changed.
+ */
+export type OperationData =
+  | {
+      type: 'stroke-begin';
+      // the stroke, and the line it makes
+      id: string;
+      lineProps: LineProps;
+    }
+  | {
+      type: 'stroke-points';
+      id: string;
+      // the points from this index on are replaced, shapes send all of
+      // theirs every time
+      from: number;
+      points: Array<Point>;
+    }
+  | {
+      type: 'stroke-end';
+      id: string;
+      // null when the stroke got cancelled or was a vector eraser
+      line: Line | null;
+    }
+  | {
+      type: 'erase';
+      id: string;
+      // lines a vector eraser removed, split lines left their pieces
+      lines: Array<{ id: string; pieces: Array<Line> }>;
+    }
+  | {
+      type: 'clear';
+      id: string;
+    }
+  | {
+      type: 'change';
+      id: string;
+      command: HistoryCommand['type'];
+      // set when undo or redo made the change
+      source?: 'undo' | 'redo';
+      // ids of the lines taken out
+      removed: Array<string>;
+      // lines put in, in order, each after the line with the id `after`
+      // or for null after the lines without an id
+      inserted: Array<{ line: Line; after: string | null }>;
+    }
+  | {
+      type: 'replace';
+      id: string;
+      command: HistoryCommand['type'];
+      source?: 'undo' | 'redo';
+      lines: Array<Line>;
+    }
+  | {
+      type: 'layers';
+      id: string;
+      // the whole stack, the latest stack wins
+      layers: Array<Layer>;
+    };
+
+export type ChangeData = Extract<OperationData, { type: 'change' | 'replace' }>;
+
+export type Operation = OperationStamp & OperationData;
+
+export function compareStamps(a: OperationStamp, b: OperationStamp) {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+/**
+ * Where a line made at `stamp` goes: after the lines made before it,
+ * lines without a stamp (loaded ones) come first.
+ */
+export function getStampIndex(
+  lines: Array<Line>,
+  stamp: OperationStamp,
+  getStamp: (line: Line) => OperationStamp | undefined,
+) {
+  const index = lines.findIndex((line) => {
+    const lineStamp = getStamp(line);
+    return !!lineStamp && compareStamps(lineStamp, stamp) > 0;
+  });
+  return index < 0 ? lines.length : index;
+}
+
+/**
+ * The lines of a vector erase command, with the pieces split lines left.
+ * Lines without an id can't be told apart on other canvases.
+ */
+export function getErasedLines(command: HistoryCommand) {
+  const pieces = command.inserted.map(({ line }) => line);
+  return command.removed
+    .map(({ line }) => line.id)
+    .filter((id): id is string => id !== undefined)
+    .map((id) => ({
+      id,
+      pieces: pieces.filter((piece) => piece.id?.startsWith(`${id}.`)),
+    }));
+}
+
+/**
+ * The operation for a change to the lines other operations don't cover,
+ * `next` are the lines after it.
+ */
+export function getChangeData(
+  command: HistoryCommand,
+  next: Array<Line>,
+  source?: 'undo' | 'redo',
+): ChangeData {
+  const base = {
+    id: createId(),
+    command: command.type,
+    ...(source ? { source } : {}),
+  };
+  if (
+    command.removed.some(({ line }) => line.id === undefined) ||
+    command.inserted.some(({ line }) => line.id === undefined)
+  ) {
+    return { ...base, type: 'replace', lines: next };
+  }
+  return {
+    ...base,
+    type: 'change',
+    removed: command.removed
+      .map(({ line }) => line.id)
+      .filter((id): id is string => id !== undefined),
+    inserted: [...command.inserted]
+      .sort((a, b) => a.index - b.index)
+      .map(({ index, line }) => {
+        const before = next
+          .slice(0, index)
+          .reverse()
+          .find((other) => other.id !== undefined);
+        return { line, after: before?.id ?? null };
+      }),
+  };
+}
+
+/**
+ * The lines after the `change` of a collaborator made at `stamp`. Lines
+ * whose neighbour is gone go where their stamp puts them.
+ */
+export function applyChange(
+  lines: Array<Line>,
+  { removed, inserted }: Extract<ChangeData, { type: 'change' }>,
+  stamp: OperationStamp,
+  getStamp: (line: Line) => OperationStamp | undefined,
+) {
+  // inserted lines that are there already get replaced
+  const gone = new Set(
+    removed.concat(
+      inserted
+        .map(({ line }) => line.id)
+        .filter((id): id is string => id !== undefined),
+    ),
+  );
+  let next = lines.filter(
+    (line) => line.id === undefined || !gone.has(line.id),
+  );
+  inserted.forEach(({ line, after }) => {
+    let at: number;
+    if (after === null) {
+      at = next.findIndex((other) => other.id !== undefined);
+      if (at < 0) at = next.length;
+    } else {
+      at = next.findIndex((other) => other.id === after) + 1;
+      if (!at) at = getStampIndex(next, getStamp(line) ?? stamp, getStamp);
+    }
+    next = [...next.slice(0, at), line, ...next.slice(at)];
+  });
+  return next;
+}
+
+/**
+ * Sends operations to the other tabs of this browser on the channel
+ * `name`. Pass `send` as `onLocalOperation` and feed what `subscribe`
+ * receives to `applyRemoteOperation`.
+ */
+export function createBroadcastChannelAdapter(name: string) {
+  const channel = new BroadcastChannel(name);
+  return {
+    send(op: Operation) {
+      channel.postMessage(op);
+    },
+    // returns a function that stops listening
+    subscribe(listener: (op: Operation) => void) {
+      const handleMessage = (ev: MessageEvent<Operation>) => listener(ev.data);
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    },
+    close() {
+      channel.close();
+    },
+  };
+}
@@ -0,0 +1,145 @@
+import type { Point } from '.';
+
+type PointField = Exclude<keyof Point, 'x' | 'y'>;
+
+// optional fields in the order of their bits, with the steps per unit
+// they're rounded to
+const OPTIONAL_FIELDS: Array<[PointField, number | null]> = [
+  ['pressure', 1000],
+  ['tiltX', 1],
+  ['tiltY', 1],
+  // null for the precision of the coordinates
+  ['width', null],
+];
+
+// last rounded value of every field, the next one is stored relative to it
+type Quantized = Record<'x' | 'y' | PointField, number>;
+
+function createQuantized(): Quantized {
+  return { x: 0, y: 0, pressure: 0, tiltX: 0, tiltY: 0, width: 0 };
+}
+
+function getFields(precision: number) {
+  return OPTIONAL_FIELDS.map(
+    ([field, steps]) => [field, steps ?? precision] as const,
+  );
+}
+
+// small numbers of either sign in few bytes
+function writeVarint(bytes: Array<number>, value: number) {
+  let n = value < 0 ? -value * 2 - 1 : value * 2;
+  while (n >= 0x80) {
+    bytes.push(n % 0x80 | 0x80);
+    n = Math.floor(n / 0x80);
+  }
+  bytes.push(n);
+}
+
+function readVarint(bytes: Uint8Array, offset: number): [number, number] {
+  let n = 0;
+  let shift = 1;
+  let i = offset;
+  for (;;) {
+    const byte = bytes[i++];
+    if (byte === undefined) {
+      throw new Error('Invalid save data: truncated points');
+    }
+    n += (byte & 0x7f) * shift;
+    shift *= 0x80;
+    if (byte < 0x80) break;
+  }
+  return [n % 2 ? -(n + 1) / 2 : n / 2, i];
+}
+
+function toBase64(bytes: Array<number>) {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  let binary: string;
+  try {
+    binary = atob(value);
+  } catch {
+    throw new Error('Invalid save data: points are not base64');
+  }
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Pack points into a base64 string: coordinates rounded to `precision`
+ * steps per unit, each value stored as the difference to the one before.
+ * The first byte flags the optional fields of the line, each point then
+ * starts with the flags of the ones it has.
+ */
+export function encodePoints(points: Array<Point>, precision: number) {
+  const bytes: Array<number> = [];
+  const fields = getFields(precision);
+  const lineFlags = fields.reduce(
+    (flags, [field], bit) =>
+      points.some((p) => p[field] !== undefined) ? flags | (1 << bit) : flags,
+    0,
+  );
+  bytes.push(lineFlags);
+
+  const last = createQuantized();
+  const writeField = (field: keyof Quantized, value: number, steps: number) => {
+    const quantized = Math.round(value * steps);
+    writeVarint(bytes, quantized - last[field]);
+    last[field] = quantized;
+  };
+
+  points.forEach((p) => {
+    if (lineFlags) {
+      bytes.push(
+        fields.reduce(
+          (flags, [field], bit) =>
+            p[field] !== undefined ? flags | (1 << bit) : flags,
+          0,
+        ),
+      );
+    }
+    writeField('x', p.x, precision);
+    writeField('y', p.y, precision);
+    fields.forEach(([field, steps]) => {
+      const value = p[field];
+      if (value !== undefined) writeField(field, value, steps);
+    });
+  });
+  return toBase64(bytes);
+}
+
+export function decodePoints(value: string, precision: number) {
+  const bytes = fromBase64(value);
+  const fields = getFields(precision);
+  const points: Array<Point> = [];
+  const last = createQuantized();
+  let offset = 1;
+  const readField = (field: keyof Quantized, steps: number) => {
+    const [delta, next] = readVarint(bytes, offset);
+    offset = next;
+    last[field] += delta;
+    return last[field] / steps;
+  };
+
+  const lineFlags = bytes[0] ?? 0;
+  while (offset < bytes.length) {
+    const flags = lineFlags ? bytes[offset++] ?? 0 : 0;
+    const p: Point = {
+      x: readField('x', precision),
+      y: readField('y', precision),
+    };
+    fields.forEach(([field, steps], bit) => {
+      if (flags & (1 << bit)) p[field] = readField(field, steps);
+    });
+    points.push(p);
+  }
+  return points;
+}
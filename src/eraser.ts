@@ -0,0 +1,249 @@
+import type { Line, Point, StrokeLine } from '.';
+import type { HistoryCommand } from './history';
+import { getLineOutline, isClosedShape } from './shapes';
+import { isInsidePolygon } from './utils';
+
+export type EraseMode = 'pixel' | 'stroke' | 'split';
+
+export type Eraser = {
+  points: Array<Point>;
+  radius: number;
+};
+
+export function pointSegmentDistance(p: Point, a: Point, b: Point) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq
+    ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq))
+    : 0;
+  return Math.hypot(p.x - (a.x + dx * t), p.y - (a.y + dy * t));
+}
+
+function segmentsIntersect(a: Point, b: Point, c: Point, d: Point) {
+  const cross = (o: Point, p: Point, q: Point) =>
+    (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+function segmentDistance(a: Point, b: Point, c: Point, d: Point) {
+  if (segmentsIntersect(a, b, c, d)) return 0;
+  return Math.min(
+    pointSegmentDistance(a, c, d),
+    pointSegmentDistance(b, c, d),
+    pointSegmentDistance(c, a, b),
+    pointSegmentDistance(d, a, b),
+  );
+}
+
+// pairs of consecutive points, a single point is a zero length segment
+function toSegments(points: Array<Point>): Array<[Point, Point]> {
+  if (points.length === 1 && points[0]) return [[points[0], points[0]]];
+  const segments: Array<[Point, Point]> = [];
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1];
+    const b = points[i];
+    if (a && b) segments.push([a, b]);
+  }
+  return segments;
+}
+
+function distanceToEraser(a: Point, b: Point, eraser: Eraser) {
+  return Math.min(
+    ...toSegments(eraser.points).map(([c, d]) => segmentDistance(a, b, c, d)),
+  );
+}
+
+export function hitsLine(line: Line, eraser: Eraser) {
+  if (line.tool === 'eraser') return false;
+  const outline = getLineOutline(line);
+  if (line.tool === 'shape' && line.fill && isClosedShape(line)) {
+    if (eraser.points.some((p) => isInsidePolygon(p, outline))) return true;
+  }
+  return toSegments(outline).some(
+    ([a, b]) =>
+      distanceToEraser(a, b, eraser) <=
+      eraser.radius +
+        Math.max(a.width ?? 0, b.width ?? 0, line.brushRadius * 2) / 2,
+  );
+}
+
+// values of t where lo <= from + t * step <= hi
+function linearRange(
+  from: number,
+  step: number,
+  lo: number,
+  hi: number,
+): [number, number] | null {
+  if (step === 0)
+    return from >= lo && from <= hi ? [-Infinity, Infinity] : null;
+  const t1 = (lo - from) / step;
+  const t2 = (hi - from) / step;
+  return [Math.min(t1, t2), Math.max(t1, t2)];
+}
+
+/**
+ * The part of the segment from `a` to `b` within `radius` of the segment
+ * from `c` to `d`, as the range of t along `a` to `b`. The covered area
+ * is convex, so it's the span of what its two end circles and the band
+ * between them cover.
+ */
+function coveredRange(
+  a: Point,
+  b: Point,
+  c: Point,
+  d: Point,
+  radius: number,
+): [number, number] | null {
+  const vx = b.x - a.x;
+  const vy = b.y - a.y;
+  const ranges: Array<[number, number]> = [];
+
+  [c, d].forEach((o) => {
+    const fx = a.x - o.x;
+    const fy = a.y - o.y;
+    const qa = vx * vx + vy * vy;
+    const qb = 2 * (fx * vx + fy * vy);
+    const qc = fx * fx + fy * fy - radius * radius;
+    if (qa === 0) {
+      if (qc <= 0) ranges.push([-Infinity, Infinity]);
+      return;
+    }
+    const disc = qb * qb - 4 * qa * qc;
+    if (disc < 0) return;
+    const root = Math.sqrt(disc);
+    ranges.push([(-qb - root) / (2 * qa), (-qb + root) / (2 * qa)]);
+  });
+
+  const length = Math.hypot(d.x - c.x, d.y - c.y);
+  if (length > 0) {
+    const ux = (d.x - c.x) / length;
+    const uy = (d.y - c.y) / length;
+    const fx = a.x - c.x;
+    const fy = a.y - c.y;
+    // along the eraser segment and across it
+    const along = linearRange(fx * ux + fy * uy, vx * ux + vy * uy, 0, length);
+    const across = linearRange(
+      fy * ux - fx * uy,
+      vy * ux - vx * uy,
+      -radius,
+      radius,
+    );
+    if (along && across) {
+      const lo = Math.max(along[0], across[0]);
+      const hi = Math.min(along[1], across[1]);
+      if (lo <= hi) ranges.push([lo, hi]);
+    }
+  }
+
+  if (!ranges.length) return null;
+  const lo = Math.max(0, Math.min(...ranges.map(([from]) => from)));
+  const hi = Math.min(1, Math.max(...ranges.map(([, to]) => to)));
+  return lo <= hi ? [lo, hi] : null;
+}
+
+// ranges of t along the segment from `a` to `b` the eraser leaves visible
+function visibleRanges(
+  a: Point,
+  b: Point,
+  eraser: Eraser,
+  reach: number,
+): Array<[number, number]> {
+  const covered = toSegments(eraser.points)
+    .map(([c, d]) => coveredRange(a, b, c, d, reach))
+    .filter((range): range is [number, number] => range !== null)
+    .sort(([from1], [from2]) => from1 - from2);
+  const visible: Array<[number, number]> = [];
+  let start = 0;
+  covered.forEach(([from, to]) => {
+    if (from > start) visible.push([start, from]);
+    start = Math.max(start, to);
+  });
+  if (start < 1) visible.push([start, 1]);
+  return visible;
+}
+
+function lerpPoint(a: Point, b: Point, t: number): Point {
+  const lerp = (from: number, to: number) => from + (to - from) * t;
+  return {
+    x: lerp(a.x, b.x),
+    y: lerp(a.y, b.y),
+    ...(a.pressure !== undefined && b.pressure !== undefined
+      ? { pressure: lerp(a.pressure, b.pressure) }
+      : {}),
+    ...(a.width !== undefined && b.width !== undefined
+      ? { width: lerp(a.width, b.width) }
+      : {}),
+  };
+}
+
+/**
+ * Cut what the eraser covers out of a stroke, returns the visible
+ * pieces. Pieces end where the eraser's edge crosses the stroke, also
+ * between points far apart.
+ */
+export function splitLine(line: StrokeLine, eraser: Eraser) {
+  const halfWidth = (p: Point) => (p.width ?? line.brushRadius * 2) / 2;
+  const pieces: Array<Array<Point>> = [];
+  let piece: Array<Point> = [];
+  const endPiece = () => {
+    if (piece.length > 1) pieces.push(piece);
+    piece = [];
+  };
+
+  toSegments(line.points).forEach(([a, b]) => {
+    const reach = eraser.radius + (halfWidth(a) + halfWidth(b)) / 2;
+    const visible = visibleRanges(a, b, eraser, reach);
+    if (!visible.length) endPiece();
+    visible.forEach(([from, to]) => {
+      if (from > 0 || !piece.length) {
+        endPiece();
+        piece.push(from > 0 ? lerpPoint(a, b, from) : a);
+      }
+      piece.push(to < 1 ? lerpPoint(a, b, to) : b);
+      if (to < 1) endPiece();
+    });
+  });
+  endPiece();
+
+  return pieces.map((points, i) => ({
+    ...line,
+    points,
+    // collaborators tell the pieces apart
+    ...(line.id !== undefined ? { id: `${line.id}.${i}` } : {}),
+  }));
+}
+
+/**
+ * Change the lines under a vector eraser: `stroke` drops every line the
+ * eraser touches, `split` keeps the uncovered pieces of freehand strokes.
+ * Lines `erasable` rejects stay. Returns null when nothing was hit.
+ */
+export function eraseLines(
+  lines: Array<Line>,
+  eraser: Eraser,
+  mode: Exclude<EraseMode, 'pixel'>,
+  erasable: (line: Line) => boolean = () => true,
+): HistoryCommand | null {
+  const command: HistoryCommand = { type: 'erase', removed: [], inserted: [] };
+  let nextLength = 0;
+
+  lines.forEach((line, index) => {
+    if (!erasable(line) || !hitsLine(line, eraser)) {
+      nextLength++;
+      return;
+    }
+    command.removed.push({ index, line });
+    if (mode === 'split' && line.tool === 'brush') {
+      splitLine(line, eraser).forEach((piece) => {
+        command.inserted.push({ index: nextLength++, line: piece });
+      });
+    }
+  });
+
+  return command.removed.length ? command : null;
+}
@@ -0,0 +1,141 @@
+import type { CanvasData, ImageProps } from '.';
+import { drawGrid } from './grid';
+import type { GridStyle } from './grid';
+import { DEFAULT_LAYERS, renderLayers } from './layers';
+import { getExportBounds } from './selection';
+import type { ExportArea } from './selection';
+import { drawBackgroundImage } from './utils';
+
+export type ExportImageOptions = {
+  type?: 'image/png' | 'image/jpeg' | 'image/webp';
+  // 0 to 1, only used by lossy types
+  quality?: number;
+  // fill the background color, jpeg has no alpha so it's black without it
+  includeBackground?: boolean;
+  // background image given by `imgSrc`
+  includeImage?: boolean;
+  includeGrid?: boolean;
+  // output resolution relative to the canvas size
+  scale?: number;
+  // `content` also takes in the lines drawn outside the canvas
+  area?: ExportArea;
+};
+
+export type ExportImageDocument = Pick<
+  CanvasData,
+  'lines' | 'width' | 'height' | 'background' | 'layers'
+> & {
+  grid?: GridStyle;
+  image?: ImageProps & { img: HTMLImageElement };
+};
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Composite background, grid and drawing into a single canvas.
+ * Lines are re-rendered at the output resolution instead of scaling the
+ * on-screen bitmap, so the image stays sharp at any scale.
+ */
+export function renderImage(
+  {
+    lines,
+    width,
+    height,
+    background,
+    grid,
+    image,
+    layers = DEFAULT_LAYERS,
+  }: ExportImageDocument,
+  {
+    includeBackground = true,
+    includeImage = true,
+    includeGrid = false,
+    scale = 1,
+    area = 'canvas',
+  }: ExportImageOptions = {},
+) {
+  const { minX, minY, maxX, maxY } = getExportBounds(
+    lines,
+    width,
+    height,
+    area,
+  );
+  const areaWidth = maxX - minX;
+  const areaHeight = maxY - minY;
+  const outWidth = Math.max(1, Math.round(areaWidth * scale));
+  const outHeight = Math.max(1, Math.round(areaHeight * scale));
+  const output = createCanvas(outWidth, outHeight);
+  const ctx = output.getContext('2d');
+  if (!ctx) {
+    throw new Error('Unable to get a 2d context for the export canvas');
+  }
+
+  if (includeBackground) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, outWidth, outHeight);
+  }
+
+  if (includeImage && image) {
+    ctx.save();
+    ctx.scale(outWidth / areaWidth, outHeight / areaHeight);
+    ctx.translate(-minX, -minY);
+    drawBackgroundImage(ctx, image.img, image, width, height);
+    ctx.restore();
+  }
+
+  if (includeGrid && grid) {
+    const gridCanvas = createCanvas(outWidth, outHeight);
+    drawGrid(gridCanvas, grid, scale, { x: -minX, y: -minY, zoom: 1 });
+    ctx.drawImage(gridCanvas, 0, 0);
+  }
+
+  // the eraser cuts out of its own layer so it reveals the background
+  const drawing = createCanvas(outWidth, outHeight);
+  const drawingCtx = drawing.getContext('2d');
+  if (drawingCtx) {
+    drawingCtx.scale(outWidth / areaWidth, outHeight / areaHeight);
+    drawingCtx.translate(-minX, -minY);
+    renderLayers(drawingCtx, lines, layers);
+    ctx.drawImage(drawing, 0, 0);
+  }
+
+  return output;
+}
+
+export function exportImage(
+  doc: ExportImageDocument,
+  options?: ExportImageOptions & { as?: 'blob' },
+): Promise<Blob>;
+export function exportImage(
+  doc: ExportImageDocument,
+  options: ExportImageOptions & { as: 'dataURL' },
+): Promise<string>;
+export function exportImage(
+  doc: ExportImageDocument,
+  options: ExportImageOptions & { as?: 'blob' | 'dataURL' } = {},
+): Promise<Blob | string> {
+  const { type = 'image/png', quality, as = 'blob' } = options;
+  return new Promise((resolve, reject) => {
+    const canvas = renderImage(doc, options);
+    if (as === 'dataURL') {
+      resolve(canvas.toDataURL(type, quality));
+      return;
+    }
+    canvas.toBlob(
+      (blob) => {
+        if (blob) {
+          resolve(blob);
+        } else {
+          reject(new Error(`Unable to export the drawing as ${type}`));
+        }
+      },
+      type,
+      quality,
+    );
+  });
+}
@@ -0,0 +1,267 @@
+import type {
+  CanvasData,
+  ImageProps,
+  Line,
+  Point,
+  ShapeLine,
+  StrokeLine,
+} from '.';
+import { getBrush } from './brushes';
+import { DEFAULT_LAYERS, getLayerLines } from './layers';
+import { getExportBounds } from './selection';
+import type { ExportArea } from './selection';
+import { getShapePath, isClosedShape } from './shapes';
+import {
+  getImagePlacement,
+  hasPointWidths,
+  traceWidthOutline,
+  tracePoints,
+} from './utils';
+
+export type ExportSVGOptions = {
+  includeBackground?: boolean;
+  includeImage?: boolean;
+  // keeps mask ids unique when several svgs are inlined in one page
+  idPrefix?: string;
+  // `content` also takes in the lines drawn outside the canvas
+  area?: ExportArea;
+};
+
+export type ExportSVGDocument = Pick<
+  CanvasData,
+  'lines' | 'width' | 'height' | 'background' | 'layers'
+> & {
+  image?: ImageProps & { src: string; width: number; height: number };
+};
+
+export function round(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+export function escapeAttr(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;');
+}
+
+/**
+ * Build the `d` attribute of a path with the same quadratic smoothing
+ * `drawPoints` uses on the canvas.
+ */
+export function pointsToPathData(points: Array<Point>) {
+  const commands: Array<string> = [];
+  tracePoints(
+    {
+      moveTo: (x, y) => commands.push(`M${round(x)} ${round(y)}`),
+      lineTo: (x, y) => commands.push(`L${round(x)} ${round(y)}`),
+      quadraticCurveTo: (cpx, cpy, x, y) =>
+        commands.push(`Q${round(cpx)} ${round(cpy)} ${round(x)} ${round(y)}`),
+    },
+    points,
+  );
+  return commands.join('');
+}
+
+function imageElement(
+  {
+    src,
+    width: iw,
+    height: ih,
+    ...props
+  }: NonNullable<ExportSVGDocument['image']>,
+  width: number,
+  height: number,
+  id: string,
+) {
+  const {
+    x,
+    y,
+    width: w,
+    height: h,
+  } = getImagePlacement(iw, ih, width, height, props);
+  const img = (ix: number, iy: number) =>
+    `<image href="${escapeAttr(src)}" x="${round(ix)}" y="${round(
+      iy,
+    )}" width="${round(w)}" height="${round(h)}" preserveAspectRatio="none"/>`;
+  if (props.fit === 'tile') {
+    return (
+      `<defs><pattern id="${id}" patternUnits="userSpaceOnUse" x="${round(
+        x,
+      )}" y="${round(y)}" width="${round(w)}" height="${round(h)}">` +
+      img(0, 0) +
+      `</pattern></defs><rect width="${width}" height="${height}" fill="url(#${id})"/>`
+    );
+  }
+  // nested svg clips the overflowing part of `cover`
+  return `<svg width="${width}" height="${height}">${img(x, y)}</svg>`;
+}
+
+function shapePath(line: ShapeLine) {
+  const d = getShapePath(line)
+    .map(([command, ...values]) => command + values.map(round).join(' '))
+    .join('');
+  if (!d) return '';
+  const color = escapeAttr(line.brushColor);
+  return `<path d="${d}" fill="${
+    line.fill && isClosedShape(line) ? color : 'none'
+  }" stroke="${color}" stroke-width="${round(
+    line.brushRadius * 2,
+  )}" stroke-linecap="round" stroke-linejoin="round"/>`;
+}
+
+// path data of `traceWidthOutline`, circles as two arcs
+function widthOutlineData(points: Array<Point>, lineWidth: number) {
+  let d = '';
+  traceWidthOutline(
+    {
+      moveTo: (x, y) => {
+        d += `M${round(x)} ${round(y)}`;
+      },
+      lineTo: (x, y) => {
+        d += `L${round(x)} ${round(y)}`;
+      },
+      arc: (x, y, radius) => {
+        const r = round(radius);
+        d +=
+          `A${r} ${r} 0 1 1 ${round(x - radius)} ${round(y)}` +
+          `A${r} ${r} 0 1 1 ${round(x + radius)} ${round(y)}`;
+      },
+      closePath: () => {
+        d += 'Z';
+      },
+    },
+    points,
+    lineWidth,
+  );
+  return d;
+}
+
+// brush strokes other than opaque round ones
+function brushPath(line: StrokeLine) {
+  const brush = getBrush(line.brushType);
+  const body = brush.toSVG
+    ? brush.toSVG(line)
+    : linePath(
+        { ...line, brushType: undefined, opacity: undefined },
+        line.brushColor,
+      );
+  return body && line.opacity !== undefined && line.opacity < 1
+    ? `<g opacity="${round(line.opacity)}">${body}</g>`
+    : body;
+}
+
+function linePath(line: Line, stroke: string): string {
+  if (line.tool === 'shape') {
+    return shapePath(line);
+  }
+  if (
+    line.tool === 'brush' &&
+    (line.brushType !== undefined || line.opacity !== undefined)
+  ) {
+    return brushPath(line);
+  }
+  if (hasPointWidths(line.points)) {
+    // svg can't vary the width along a path, the outline gets filled
+    const d = widthOutlineData(line.points, line.brushRadius * 2);
+    return d ? `<path d="${d}" fill="${escapeAttr(stroke)}"/>` : '';
+  }
+
+  const d = pointsToPathData(line.points);
+  if (!d) return '';
+  return `<path d="${d}" fill="none" stroke="${escapeAttr(
+    stroke,
+  )}" stroke-width="${round(
+    line.brushRadius * 2,
+  )}" stroke-linecap="round" stroke-linejoin="round"/>`;
+}
+
+/**
+ * Convert lines into an SVG document.
+ * Eraser lines only hide what was drawn before them, so everything painted
+ * so far gets wrapped in a group masked by the following eraser strokes.
+ * Layers other than plain ones become groups with their opacity and
+ * blend mode.
+ */
+export function exportSVG(
+  {
+    lines,
+    width,
+    height,
+    background,
+    image,
+    layers = DEFAULT_LAYERS,
+  }: ExportSVGDocument,
+  {
+    includeBackground = true,
+    includeImage = true,
+    idPrefix = 'doodle',
+    area = 'canvas',
+  }: ExportSVGOptions = {},
+) {
+  const defs: Array<string> = [];
+  const { minX, minY, maxX, maxY } = getExportBounds(
+    lines,
+    width,
+    height,
+    area,
+  );
+  const areaWidth = maxX - minX;
+  const areaHeight = maxY - minY;
+  const areaRect = `x="${minX}" y="${minY}" width="${areaWidth}" height="${areaHeight}"`;
+
+  const layerContent = (layerLines: Array<Line>) => {
+    let content = '';
+    let erasers: Array<Line> = [];
+
+    const applyMask = () => {
+      if (!erasers.length) return;
+      const id = `${idPrefix}-erase-${defs.length}`;
+      defs.push(
+        `<mask id="${id}" maskUnits="userSpaceOnUse" ${areaRect}>` +
+          `<rect ${areaRect} fill="white"/>` +
+          erasers.map((line) => linePath(line, 'black')).join('') +
+          '</mask>',
+      );
+      content = `<g mask="url(#${id})">${content}</g>`;
+      erasers = [];
+    };
+
+    layerLines.forEach((line) => {
+      if (line.tool === 'eraser') {
+        erasers.push(line);
+        return;
+      }
+      applyMask();
+      content += linePath(line, line.brushColor);
+    });
+    applyMask();
+    return content;
+  };
+
+  const content = layers
+    .filter((layer) => layer.visible)
+    .map((layer) => {
+      const body = layerContent(getLayerLines(lines, layers, layer));
+      const attrs =
+        (layer.opacity < 1 ? ` opacity="${round(layer.opacity)}"` : '') +
+        (layer.blendMode !== 'normal'
+          ? ` style="mix-blend-mode:${layer.blendMode}"`
+          : '');
+      return body && attrs ? `<g${attrs}>${body}</g>` : body;
+    })
+    .join('');
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${areaWidth}" height="${areaHeight}" viewBox="${minX} ${minY} ${areaWidth} ${areaHeight}">` +
+    (defs.length ? `<defs>${defs.join('')}</defs>` : '') +
+    (includeBackground
+      ? `<rect ${areaRect} fill="${escapeAttr(background)}"/>`
+      : '') +
+    (includeImage && image
+      ? imageElement(image, width, height, `${idPrefix}-image`)
+      : '') +
+    content +
+    '</svg>'
+  );
+}
@@ -0,0 +1,188 @@
+import type { Point } from '.';
+import { clearCanvas } from './utils';
+import { DEFAULT_VIEWPORT } from './viewport';
+import type { Viewport } from './viewport';
+
+// ruled is notebook paper, horizontal lines only
+export type GridType = 'lines' | 'dots' | 'isometric' | 'ruled';
+
+/**
+ * Look of the grid in world units, the grid props with defaults applied.
+ */
+export type GridStyle = {
+  type: GridType;
+  color: string;
+  // distance between lines, side of the triangles on isometric grids
+  cellSize: number;
+  // css pixels, also the dot radius on dot grids
+  lineWidth: number;
+  // every n-th line is a major one, 0 for none
+  majorEvery: number;
+  majorColor: string;
+  majorLineWidth: number;
+};
+
+export const DEFAULT_GRID_STYLE: GridStyle = {
+  type: 'lines',
+  color: 'rgba(150,150,150,0.3)',
+  cellSize: 25,
+  lineWidth: 0.5,
+  majorEvery: 0,
+  majorColor: 'rgba(150,150,150,0.6)',
+  majorLineWidth: 1,
+};
+
+// closer minor lines turn into noise
+const MIN_CELL_PIXELS = 4;
+
+const SQRT3 = Math.sqrt(3);
+
+function range(from: number, to: number, step: number) {
+  const values: Array<number> = [];
+  for (let i = Math.floor(from / step); i <= Math.ceil(to / step); i++) {
+    values.push(i);
+  }
+  return values;
+}
+
+/**
+ * Paint the grid under `view`, `scale` is the number of canvas pixels per
+ * css pixel.
+ */
+export function drawGrid(
+  canvas: HTMLCanvasElement,
+  style: GridStyle,
+  scale = 1,
+  view: Viewport = DEFAULT_VIEWPORT,
+) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+
+  clearCanvas(canvas);
+
+  const { type, cellSize, majorEvery } = style;
+  if (cellSize <= 0) return;
+  const pixels = view.zoom * scale;
+  const minorVisible = cellSize * pixels >= MIN_CELL_PIXELS;
+  const isMajor = (i: number) => majorEvery > 0 && i % majorEvery === 0;
+
+  // visible part of the world
+  const minX = -view.x / view.zoom;
+  const minY = -view.y / view.zoom;
+  const maxX = minX + canvas.width / pixels;
+  const maxY = minY + canvas.height / pixels;
+
+  ctx.save();
+  ctx.setTransform(pixels, 0, 0, pixels, view.x * scale, view.y * scale);
+
+  const minorPath = new Path2D();
+  const majorPath = new Path2D();
+  const pathOf = (i: number) =>
+    isMajor(i) ? majorPath : minorVisible ? minorPath : null;
+
+  if (type === 'dots') {
+    range(minX, maxX, cellSize).forEach((i) => {
+      range(minY, maxY, cellSize).forEach((j) => {
+        const major = isMajor(i) && isMajor(j);
+        if (!major && !minorVisible) return;
+        const path = major ? majorPath : minorPath;
+        const radius =
+          (major ? style.majorLineWidth : style.lineWidth) / view.zoom;
+        path.moveTo(i * cellSize + radius, j * cellSize);
+        path.arc(i * cellSize, j * cellSize, radius, 0, Math.PI * 2);
+      });
+    });
+    ctx.fillStyle = style.color;
+    ctx.fill(minorPath);
+    ctx.fillStyle = style.majorColor;
+    ctx.fill(majorPath);
+    ctx.restore();
+    return;
+  }
+
+  if (type === 'isometric') {
+    // vertical lines through the corners of the triangles and the two
+    // families of 30° slopes
+    const columnWidth = (cellSize * SQRT3) / 2;
+    range(minX, maxX, columnWidth).forEach((i) => {
+      const path = pathOf(i);
+      if (!path) return;
+      path.moveTo(i * columnWidth, minY);
+      path.lineTo(i * columnWidth, maxY);
+    });
+    [1, -1].forEach((slope) => {
+      const rise = (x: number) => (slope * x) / SQRT3;
+      const offsets = [minY - rise(minX), minY - rise(maxX)];
+      const from = Math.min(...offsets);
+      const to = Math.max(...offsets) + (maxY - minY);
+      range(from, to, cellSize).forEach((j) => {
+        const path = pathOf(j);
+        if (!path) return;
+        path.moveTo(minX, j * cellSize + rise(minX));
+        path.lineTo(maxX, j * cellSize + rise(maxX));
+      });
+    });
+  } else {
+    if (type === 'lines') {
+      range(minX, maxX, cellSize).forEach((i) => {
+        const path = pathOf(i);
+        if (!path) return;
+        path.moveTo(i * cellSize, minY);
+        path.lineTo(i * cellSize, maxY);
+      });
+    }
+    range(minY, maxY, cellSize).forEach((j) => {
+      const path = pathOf(j);
+      if (!path) return;
+      path.moveTo(minX, j * cellSize);
+      path.lineTo(maxX, j * cellSize);
+    });
+  }
+
+  // line widths stay in css pixels whatever the zoom
+  ctx.strokeStyle = style.color;
+  ctx.lineWidth = style.lineWidth / view.zoom;
+  ctx.stroke(minorPath);
+  ctx.strokeStyle = style.majorColor;
+  ctx.lineWidth = style.majorLineWidth / view.zoom;
+  ctx.stroke(majorPath);
+  ctx.restore();
+}
+
+/**
+ * The grid point closest to `p`: line crossings, dots or the corners of
+ * the isometric triangles. Ruled paper snaps to the lines only.
+ */
+export function snapToGrid<P extends Point>(p: P, style: GridStyle): P {
+  const { cellSize } = style;
+  if (cellSize <= 0) return p;
+
+  if (style.type === 'ruled') {
+    return { ...p, y: Math.round(p.y / cellSize) * cellSize };
+  }
+
+  if (style.type === 'isometric') {
+    const columnWidth = (cellSize * SQRT3) / 2;
+    const column = Math.round(p.x / columnWidth);
+    let best = { x: p.x, y: p.y };
+    let bestDistance = Infinity;
+    [column - 1, column, column + 1].forEach((i) => {
+      // every other column is shifted by half a cell
+      const shift = i % 2 === 0 ? 0 : cellSize / 2;
+      const y = Math.round((p.y - shift) / cellSize) * cellSize + shift;
+      const x = i * columnWidth;
+      const distance = Math.hypot(x - p.x, y - p.y);
+      if (distance < bestDistance) {
+        best = { x, y };
+        bestDistance = distance;
+      }
+    });
+    return { ...p, ...best };
+  }
+
+  return {
+    ...p,
+    x: Math.round(p.x / cellSize) * cellSize,
+    y: Math.round(p.y / cellSize) * cellSize,
+  };
+}
@@ -0,0 +1,255 @@
+import type { Line } from '.';
+import type { Layer } from './layers';
+
+/**
+ * A change to the list of lines, stored as the lines removed from and
+ * inserted into the list so it can be applied and reverted.
+ * Indices refer to the list the change applies to: `removed` before it,
+ * `inserted` after it.
+ */
+export type HistoryCommand = {
+  type:
+    | 'add'
+    | 'erase'
+    | 'clear'
+    | 'load'
+    | 'transform'
+    | 'delete'
+    | 'resize'
+    | 'merge';
+  removed: Array<{ index: number; line: Line }>;
+  inserted: Array<{ index: number; line: Line }>;
+  // the same for the layer stack, for the commands changing it
+  removedLayers?: Array<{ index: number; layer: Layer }>;
+  insertedLayers?: Array<{ index: number; layer: Layer }>;
+};
+
+export type ChangeType = HistoryCommand['type'] | 'undo' | 'redo';
+
+/**
+ * What a change did to the lines, passed to `onChange` with the new lines.
+ */
+export type LinesChange = {
+  type: ChangeType;
+  added: Array<Line>;
+  removed: Array<Line>;
+};
+
+export type HistoryState = {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoDepth: number;
+  redoDepth: number;
+};
+
+export type History = {
+  undoStack: Array<HistoryCommand>;
+  redoStack: Array<HistoryCommand>;
+};
+
+export function createHistory(): History {
+  return { undoStack: [], redoStack: [] };
+}
+
+export function addCommand(
+  type: 'add' | 'erase',
+  index: number,
+  line: Line,
+): HistoryCommand {
+  return {
+    type,
+    removed: [],
+    inserted: [{ index, line }],
+  };
+}
+
+export function replaceCommand(
+  type: 'clear' | 'load' | 'resize',
+  prev: Array<Line>,
+  next: Array<Line>,
+): HistoryCommand {
+  return {
+    type,
+    removed: prev.map((line, index) => ({ index, line })),
+    inserted: next.map((line, index) => ({ index, line })),
+  };
+}
+
+// the command turning `prev` into `next`, lines compared by reference
+export function diffCommand(
+  type: HistoryCommand['type'],
+  prev: Array<Line>,
+  next: Array<Line>,
+): HistoryCommand {
+  return {
+    type,
+    removed: prev
+      .map((line, index) => ({ index, line }))
+      .filter(({ line }) => !next.includes(line)),
+    inserted: next
+      .map((line, index) => ({ index, line }))
+      .filter(({ line }) => !prev.includes(line)),
+  };
+}
+
+function splice(
+  lines: Array<Line>,
+  remove: HistoryCommand['removed'],
+  insert: HistoryCommand['inserted'],
+) {
+  const next = [...lines];
+  // remove from the back so the indices stay valid
+  [...remove]
+    .sort((a, b) => b.index - a.index)
+    .forEach(({ index }) => next.splice(index, 1));
+  [...insert]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ index, line }) => next.splice(index, 0, line));
+  return next;
+}
+
+export function applyCommand(lines: Array<Line>, command: HistoryCommand) {
+  return splice(lines, command.removed, command.inserted);
+}
+
+// the command undoing `command`
+export function invertCommand(command: HistoryCommand): HistoryCommand {
+  return {
+    ...command,
+    removed: command.inserted,
+    inserted: command.removed,
+    ...(command.removedLayers || command.insertedLayers
+      ? {
+          removedLayers: command.insertedLayers,
+          insertedLayers: command.removedLayers,
+        }
+      : {}),
+  };
+}
+
+/**
+ * The layer stack after `command`. Layers are removed by id, the stack
+ * may have changed outside the history since the command was made.
+ */
+export function applyLayerCommand(
+  layers: Array<Layer>,
+  { removedLayers = [], insertedLayers = [] }: HistoryCommand,
+) {
+  if (!removedLayers.length && !insertedLayers.length) return layers;
+  const next = layers.filter(
+    (layer) => !removedLayers.some((entry) => entry.layer.id === layer.id),
+  );
+  [...insertedLayers]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ index, layer }) => {
+      if (next.some(({ id }) => id === layer.id)) return;
+      next.splice(Math.min(index, next.length), 0, layer);
+    });
+  // the stack is never empty
+  return next.length ? next : layers;
+}
+
+function isSameLine(a: Line, b: Line) {
+  return a === b || (a.id !== undefined && a.id === b.id);
+}
+
+/**
+ * `command` for the lines as they are now, collaborators may have changed
+ * them since it was made. Lines to remove are found by reference or id,
+ * the ones already gone are skipped and so are lines to insert that are
+ * there already.
+ */
+export function resolveCommand(
+  lines: Array<Line>,
+  command: HistoryCommand,
+): HistoryCommand {
+  const removed = command.removed
+    .map(({ index, line }) => {
+      const found =
+        lines[index] === line
+          ? index
+          : lines.findIndex((other) => isSameLine(other, line));
+      return { index: found, line: lines[found] ?? line };
+    })
+    .filter(({ index }) => index >= 0);
+  const kept = lines.filter(
+    (_, i) => !removed.some(({ index }) => index === i),
+  );
+  const inserted = command.inserted.filter(
+    ({ line }) => !kept.some((other) => isSameLine(other, line)),
+  );
+  return { ...command, removed, inserted };
+}
+
+export function revertCommand(lines: Array<Line>, command: HistoryCommand) {
+  return applyCommand(lines, invertCommand(command));
+}
+
+export function describeCommand(
+  command: HistoryCommand,
+  type: ChangeType = command.type,
+): LinesChange {
+  return {
+    type,
+    added: command.inserted.map(({ line }) => line),
+    removed: command.removed.map(({ line }) => line),
+  };
+}
+
+export function pushCommand(
+  history: History,
+  command: HistoryCommand,
+  maxDepth: number,
+) {
+  history.undoStack.push(command);
+  if (history.undoStack.length > maxDepth) {
+    history.undoStack.splice(0, history.undoStack.length - maxDepth);
+  }
+  history.redoStack = [];
+}
+
+/**
+ * Move the latest command to the redo stack and return the lines without it
+ * along with the command that got them there, or `null` when there is
+ * nothing to undo.
+ */
+export function undoCommand(history: History, lines: Array<Line>) {
+  const command = history.undoStack.pop();
+  if (!command) return null;
+  history.redoStack.push(command);
+  const inverse = resolveCommand(lines, invertCommand(command));
+  return { lines: applyCommand(lines, inverse), command: inverse };
+}
+
+export function redoCommand(history: History, lines: Array<Line>) {
+  const command = history.redoStack.pop();
+  if (!command) return null;
+  history.undoStack.push(command);
+  const resolved = resolveCommand(lines, command);
+  return { lines: applyCommand(lines, resolved), command: resolved };
+}
+
+/**
+ * Swap the lines the commands refer to, `map` has to return the same line
+ * for the same input so commands stay consistent with each other.
+ */
+export function mapHistory(history: History, map: (line: Line) => Line) {
+  const mapEntries = (entries: HistoryCommand['removed']) =>
+    entries.map(({ index, line }) => ({ index, line: map(line) }));
+  const mapCommand = (command: HistoryCommand): HistoryCommand => ({
+    ...command,
+    removed: mapEntries(command.removed),
+    inserted: mapEntries(command.inserted),
+  });
+  history.undoStack = history.undoStack.map(mapCommand);
+  history.redoStack = history.redoStack.map(mapCommand);
+}
+
+export function getHistoryState(history: History): HistoryState {
+  return {
+    canUndo: history.undoStack.length > 0,
+    canRedo: history.redoStack.length > 0,
+    undoDepth: history.undoStack.length,
+    redoDepth: history.redoStack.length,
+  };
+}
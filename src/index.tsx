@@ -4,38 +4,253 @@ import React, {
   useCallback,
   useEffect,
   useImperativeHandle,
+  useMemo,
   useRef,
   useState,
 } from 'react';
 import {
+  ERASER_COLOR,
   clearCanvas,
-  drawGrid,
+  drawBackgroundImage,
+  createId,
+  getDevicePixelRatio,
   getLineWidth,
   getPointerPos,
-  pointBtw,
+  isSameLine,
+  loadImage,
+  renderLines,
   setCanvasSize,
+  strokePoints,
 } from './utils';
+import {
+  addCommand,
+  applyCommand,
+  applyLayerCommand,
+  createHistory,
+  describeCommand,
+  getHistoryState,
+  mapHistory,
+  pushCommand,
+  redoCommand,
+  diffCommand,
+  replaceCommand,
+  undoCommand,
+} from './history';
+import type {
+  ChangeType,
+  HistoryCommand,
+  HistoryState,
+  LinesChange,
+} from './history';
+import {
+  addCheckpoint,
+  findCheckpoint,
+  restoreCheckpoint,
+} from './checkpoints';
+import type { Checkpoint, CheckpointProps } from './checkpoints';
+import { createLazyBrush, updateLazyBrush } from './lazyBrush';
+import { DEFAULT_POLYGON_SIDES, drawShape, getShapePoints } from './shapes';
+import { eraseLines } from './eraser';
+import { createReplay } from './replay';
+import {
+  DEFAULT_LAYER,
+  DEFAULT_LAYERS,
+  compositeLayers,
+  createLayer,
+  findLayer,
+  getLayerLines,
+  getLineLayer,
+  isEditable,
+  mergeLayerDown,
+} from './layers';
+import type { Layer, LayerProps } from './layers';
+import { createSeed, drawStroke, getBrush } from './brushes';
+import type { BrushType } from './brushes';
+import { findShortcutAction } from './keymap';
+import { canDraw } from './strokes';
+import type { ActiveStroke, InputMode, StrokePreview } from './strokes';
+import {
+  applyChange,
+  compareStamps,
+  getChangeData,
+  getErasedLines,
+  getStampIndex,
+} from './collab';
+import type { Operation, OperationData, OperationStamp } from './collab';
+import type { Keymap, ShortcutAction } from './keymap';
+import { DEFAULT_GRID_STYLE, drawGrid, snapToGrid } from './grid';
+import type { GridStyle, GridType } from './grid';
+import { cropLines, scaleLine, scaleLines } from './resize';
+import type { ResizePolicy, Size } from './resize';
+import type { ReplayController } from './replay';
+import {
+  drawSelection,
+  getLinesBounds,
+  getSelectionTransform,
+  hitHandle,
+  isInsideBounds,
+  selectLines,
+  transformLine,
+} from './selection';
+import type { SelectMode, SelectionDrag } from './selection';
+import type { EraseMode } from './eraser';
+import { exportImage as exportDocumentImage } from './exportImage';
+import type { ExportImageOptions } from './exportImage';
+import { exportSVG as exportDocumentSVG } from './exportSVG';
+import type { ExportSVGOptions } from './exportSVG';
+import {
+  DEFAULT_MAX_ZOOM,
+  DEFAULT_MIN_ZOOM,
+  DEFAULT_VIEWPORT,
+  fitBounds,
+  getPinchViewport,
+  getWheelZoom,
+  screenToWorld,
+  setViewTransform,
+  zoomAt,
+} from './viewport';
+import type { Viewport, ViewportGesture, ViewportProps } from './viewport';
+import {
+  DEFAULT_BACKGROUND,
+  parseSaveData,
+  serializeSaveData,
+} from './saveData';
+import type { SaveDataOptions } from './saveData';
+import { simplifyPoints } from './simplify';
+
+export { renderImage } from './exportImage';
+export type { ExportImageOptions } from './exportImage';
+export { pointsToPathData } from './exportSVG';
+export type { ChangeType, HistoryState, LinesChange } from './history';
+export type { CheckpointProps } from './checkpoints';
+export type { EraseMode } from './eraser';
+export type { SelectMode, SelectionTransform } from './selection';
+export type { ExportSVGOptions } from './exportSVG';
+export type { Viewport, ViewportProps } from './viewport';
+export type { ResizePolicy } from './resize';
+export type { GridType } from './grid';
+export type { Keymap, ShortcutAction } from './keymap';
+export type { InputMode } from './strokes';
+export type { BlendMode, Layer, LayerProps } from './layers';
+export { createRandom, registerBrush } from './brushes';
+export type { Brush, BrushType } from './brushes';
+export { SAVE_DATA_VERSION, migrateSaveData, parseSaveData } from './saveData';
+export type { SaveDataOptions } from './saveData';
+export { simplifyPoints } from './simplify';
+export { createBroadcastChannelAdapter } from './collab';
+export type { Operation, OperationData, OperationStamp } from './collab';
 
 export type Point = {
   x: number;
   y: number;
-  type?: 'erase' | string;
+  // pen/touch input only, 0 to 1
+  pressure?: number;
+  // pen tilt in degrees, -90 to 90
+  tiltX?: number;
+  tiltY?: number;
+  // stroke width at this point, set when the pressure prop is on
+  width?: number;
 };
 
-export interface Line {
+export type LineTool = 'brush' | 'eraser' | 'shape';
+
+export type ShapeKind = 'line' | 'rectangle' | 'ellipse' | 'arrow' | 'polygon';
+
+// what a new stroke draws when the eraser is off
+export type DrawTool = 'brush' | ShapeKind | 'select';
+
+interface BaseLine {
+  // the stroke that drew the line, collaborators refer to lines by it
+  id?: string;
   brushRadius: number;
   brushColor: string;
   points: Point[];
+  // id of the layer the line is on
+  layer?: string;
+}
+
+export interface StrokeLine extends BaseLine {
+  tool: 'brush' | 'eraser';
+  // brush strokes only, round when left out
+  brushType?: BrushType;
+  // 0 to 1, applied to the whole stroke so it doesn't build up
+  opacity?: number;
+  // calligraphy nib angle in radians
+  angle?: number;
+  // scatter of seeded brushes, replays paint the same dots
+  seed?: number;
 }
 
+// points are both ends of lines and arrows, opposite corners of the
+// bounding box for the other shapes
+export interface ShapeLine extends BaseLine {
+  tool: 'shape';
+  shape: ShapeKind;
+  fill?: boolean;
+  // polygon only
+  sides?: number;
+  // radians around the center of the points, set by the selection tool
+  rotation?: number;
+}
+
+export type Line = StrokeLine | ShapeLine;
+
+// style of a line, everything but its points
+export type LineProps = Omit<StrokeLine, 'points'> | Omit<ShapeLine, 'points'>;
+
+// identifies a stroke across its lifecycle events
+export type StrokeInfo = {
+  id: string;
+  // Date.now() when the stroke started
+  timestamp: number;
+  // strokes of several pointers can be in progress at once
+  pointerId: number;
+  pointerType: string;
+};
+
 export type BrushProps = {
   brushRadius?: number;
   brushColor?: CSSProperties['color'];
+  // 'round' by default, or a type added with registerBrush
+  type?: BrushType;
+  // 0 to 1, defaults to the opacity of the brush type
+  opacity?: number;
+  // calligraphy nib angle in radians, π/4 by default
+  angle?: number;
+};
+
+export type ShapeProps = {
+  // fill closed shapes with the brush color
+  fill?: boolean;
+  sides?: number;
 };
 
 export type GridProps = {
   displayGrid?: boolean;
   gridColor?: CSSProperties['color'];
+  type?: GridType;
+  // world units between lines, 25 by default
+  cellSize?: number;
+  // css pixels
+  lineWidth?: number;
+  // every n-th line is drawn as a major line, 0 for none
+  majorEvery?: number;
+  majorColor?: CSSProperties['color'];
+  majorLineWidth?: number;
+  // snap the ends of shapes to the grid
+  snapToGrid?: boolean;
+  // snap freehand points too
+  snapFreehand?: boolean;
+};
+
+export type ImageFit = 'cover' | 'contain' | 'stretch' | 'tile';
+
+export type ImageProps = {
+  fit?: ImageFit;
+  // focal point of the image, 0 to 1 like css background-position
+  offsetX?: number;
+  offsetY?: number;
+  crossOrigin?: '' | 'anonymous' | 'use-credentials';
 };
 
 const basicStyles: React.CSSProperties = {
@@ -45,33 +260,155 @@ const basicStyles: React.CSSProperties = {
   height: '100%',
 };
 
-type CanvasData = {
-  lines: Array<Line>;
+/**
+ * Versioned drawing document produced by `getSaveData`.
+ * Documents of older versions are upgraded by `migrateSaveData` when loaded.
+ */
+export type CanvasData = {
+  version: number;
   width: number;
   height: number;
+  background: string;
+  lines: Array<Line>;
+  // bottom to top, a single layer when missing
+  layers?: Array<Layer>;
+};
+
+export type LoadOptions = {
+  // draw every line at once instead of replaying the strokes
+  immediate?: boolean;
+  // make the load undoable, defaults to true
+  recordHistory?: boolean;
 };
 
 export interface CanvasProps {
-  onChange?: () => void;
+  onChange?: (lines: Array<Line>, change: LinesChange) => void;
+  // controlled mode: the drawing shows these lines, changes made on the
+  // canvas are reported through onChange
+  lines?: Array<Line>;
+  onHistoryChange?: (state: HistoryState) => void;
+  // number of changes that can be undone
+  maxHistory?: number;
+  // bitmap snapshots that keep undo/redo from replaying every line
+  checkpointProps?: CheckpointProps;
   loadTimeOffset?: number;
   brushProps?: BrushProps;
   gridProps?: GridProps;
   backgroundColor?: CSSProperties['backgroundColor'];
-  width: number;
-  height: number;
+  // 'auto' follows the size of the parent element
+  width: number | 'auto';
+  height: number | 'auto';
+  // width / height, derives an 'auto' side from the other one
+  aspectRatio?: number;
   disabled?: boolean;
   imgSrc?: string;
-  initData?: CanvasData;
+  imgProps?: ImageProps;
+  onImageLoad?: (img: HTMLImageElement) => void;
+  onImageError?: (error: Error) => void;
+  initData?: CanvasData | string;
   immediateLoading?: boolean;
   readonly?: boolean;
   erase?: boolean;
+  // pixel paints transparency, stroke removes the lines it touches and
+  // split cuts the touched part out of freehand lines
+  eraseMode?: EraseMode;
+  tool?: DrawTool;
+  shapeProps?: ShapeProps;
+  // how the select tool picks lines
+  selectMode?: SelectMode;
+  onSelectionChange?: (lines: Array<Line>) => void;
+  onStrokeStart?: (point: Point, brush: LineProps, stroke: StrokeInfo) => void;
+  // points of the stroke so far, a copy
+  onStrokeUpdate?: (points: Array<Point>, stroke: StrokeInfo) => void;
+  // the line that got added, vector erasers pass their path
+  onStrokeEnd?: (line: Line, stroke: StrokeInfo) => void;
+  // the stroke didn't make a line
+  onStrokeCancel?: (stroke: StrokeInfo) => void;
+  // progress of the replay started by loading or play(), 0 to 1
+  onReplayProgress?: (progress: number) => void;
+  onReplayEnd?: () => void;
+  // length of the string the brush trails the pointer on, 0 disables it
+  lazyRadius?: number;
+  viewportProps?: ViewportProps;
+  onViewportChange?: (viewport: Viewport) => void;
+  // device pixels per css pixel, follows window.devicePixelRatio by default
+  pixelRatio?: number;
+  // shorthand for resizePolicy 'scale-content'
   autoScaleOnResize?: boolean;
+  // what the lines do when the canvas changes size, 'preserve-content'
+  // by default
+  resizePolicy?: ResizePolicy;
   pressure?: boolean;
+  // paint ahead to where the browser predicts the pointer goes, hides
+  // some latency while drawing
+  predictStrokes?: boolean;
+  // how far in world units finished strokes may stray from the drawn
+  // points to save some of them, 0.5 by default, 0 keeps every point
+  simplifyTolerance?: number;
+  // which pointers draw, 'any' by default
+  inputMode?: InputMode;
+  // shortcuts handled while the canvas has focus
+  keymap?: Keymap;
+  onLayersChange?: (layers: Array<Layer>, activeLayer: string) => void;
+  // the eraser and the brush size changed by a shortcut
+  onEraseChange?: (erase: boolean) => void;
+  onBrushRadiusChange?: (brushRadius: number) => void;
+  // what gets drawn here, for the other canvases showing the drawing
+  onLocalOperation?: (op: Operation) => void;
+  // tells the operations of this canvas apart, random by default
+  clientId?: string;
 }
 
 export interface CanvasRefProps {
   undo: () => void;
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
   clear: () => void;
+  getSaveData: (options?: SaveDataOptions) => string;
+  loadSaveData: (data: string | CanvasData, options?: LoadOptions) => void;
+  // composite background, grid and drawing into an image
+  exportImage: {
+    (options?: ExportImageOptions & { as?: 'blob' }): Promise<Blob>;
+    (options: ExportImageOptions & { as: 'dataURL' }): Promise<string>;
+  };
+  // vector version of the drawing as an svg document string
+  exportSVG: (options?: ExportSVGOptions) => string;
+  getSelection: () => Array<Line>;
+  // lines that are not part of the drawing are ignored
+  setSelection: (lines: Array<Line>) => void;
+  clearSelection: () => void;
+  deleteSelection: () => void;
+  duplicateSelection: () => void;
+  // replay the drawing, or resume the paused replay. Replays only change
+  // what's on screen, drawing stops them
+  play: () => void;
+  pause: () => void;
+  // jump the replay to a progress between 0 and 1
+  seek: (progress: number) => void;
+  // 1 is the pace of loadTimeOffset ms per point
+  setSpeed: (speed: number) => void;
+  getViewport: () => Viewport;
+  setViewport: (viewport: Viewport) => void;
+  // zoom around a point of the canvas, its center by default
+  zoomTo: (zoom: number, center?: { x: number; y: number }) => void;
+  // show every line, or the initial view when there are none
+  fitToContent: (padding?: number) => void;
+  // bottom to top
+  getLayers: () => Array<Layer>;
+  getActiveLayer: () => string;
+  // a new layer above the active one, which becomes active, returns its id
+  addLayer: (props?: LayerProps) => string;
+  // where new lines go and the eraser works
+  setActiveLayer: (id: string) => void;
+  updateLayer: (id: string, props: LayerProps) => void;
+  // move to `index` in the stack, 0 is the bottom
+  moveLayer: (id: string, index: number) => void;
+  // move the lines of a layer, the active one by default, to the layer
+  // below it
+  mergeDown: (id?: string) => void;
+  // an operation of another canvas, its strokes show while in progress
+  applyRemoteOperation: (op: Operation) => void;
 }
 
 const granularity = 3;
@@ -81,52 +418,357 @@ const Doodle = forwardRef<CanvasRefProps, CanvasProps>(
   (
     {
       onChange = null,
+      lines: controlledLines,
+      onHistoryChange,
+      maxHistory = 100,
+      checkpointProps,
       brushProps,
       erase = false,
+      onEraseChange,
+      onBrushRadiusChange,
+      onLayersChange,
+      onLocalOperation,
+      clientId: clientIdProp,
+      keymap,
+      eraseMode = 'pixel',
+      tool = 'brush',
+      shapeProps,
+      selectMode = 'lasso',
+      onSelectionChange,
+      onStrokeStart,
+      onStrokeUpdate,
+      onStrokeEnd,
+      onStrokeCancel,
+      onReplayProgress,
+      onReplayEnd,
+      lazyRadius = 0,
+      inputMode = 'any',
+      predictStrokes = false,
+      simplifyTolerance = 0.5,
+      viewportProps,
+      onViewportChange,
       gridProps,
-      backgroundColor = '#FFF',
-      width = 400,
-      height = 400,
+      backgroundColor = DEFAULT_BACKGROUND,
+      width: widthProp = 400,
+      height: heightProp = 400,
+      aspectRatio,
+      autoScaleOnResize = false,
+      resizePolicy = autoScaleOnResize ? 'scale-content' : 'preserve-content',
       disabled = false,
+      imgSrc,
+      imgProps,
+      onImageLoad,
+      onImageError,
       initData,
       immediateLoading = false,
       readonly = false,
       loadTimeOffset = 5,
       pressure = true,
+      pixelRatio: pixelRatioProp,
     },
     ref,
   ) => {
     const displayGrid = gridProps?.displayGrid ?? true;
-    const gridColor = gridProps?.gridColor ?? 'rgba(150,150,150,0.3)';
+    const gridType = gridProps?.type ?? DEFAULT_GRID_STYLE.type;
+    const gridColor = gridProps?.gridColor ?? DEFAULT_GRID_STYLE.color;
+    const gridCellSize = gridProps?.cellSize ?? DEFAULT_GRID_STYLE.cellSize;
+    const gridLineWidth = gridProps?.lineWidth ?? DEFAULT_GRID_STYLE.lineWidth;
+    const gridMajorEvery =
+      gridProps?.majorEvery ?? DEFAULT_GRID_STYLE.majorEvery;
+    const gridMajorColor =
+      gridProps?.majorColor ?? DEFAULT_GRID_STYLE.majorColor;
+    const gridMajorLineWidth =
+      gridProps?.majorLineWidth ?? DEFAULT_GRID_STYLE.majorLineWidth;
+    const gridStyle = useMemo<GridStyle>(
+      () => ({
+        type: gridType,
+        color: gridColor,
+        cellSize: gridCellSize,
+        lineWidth: gridLineWidth,
+        majorEvery: gridMajorEvery,
+        majorColor: gridMajorColor,
+        majorLineWidth: gridMajorLineWidth,
+      }),
+      [
+        gridCellSize,
+        gridColor,
+        gridLineWidth,
+        gridMajorColor,
+        gridMajorEvery,
+        gridMajorLineWidth,
+        gridType,
+      ],
+    );
+    const snapShapes = gridProps?.snapToGrid ?? false;
+    const snapFreehand = snapShapes && (gridProps?.snapFreehand ?? false);
+    const imgFit = imgProps?.fit ?? 'cover';
+    const imgOffsetX = imgProps?.offsetX ?? 0.5;
+    const imgOffsetY = imgProps?.offsetY ?? 0.5;
+    const imgCrossOrigin = imgProps?.crossOrigin;
+    const shapeFill = shapeProps?.fill ?? false;
+    const shapeSides = shapeProps?.sides ?? DEFAULT_POLYGON_SIDES;
+    const brushType = brushProps?.type ?? 'round';
+    const brushOpacity = brushProps?.opacity;
+    const brushAngle = brushProps?.angle;
+    const panZoom = viewportProps?.panZoom ?? false;
+    const minZoom = viewportProps?.minZoom ?? DEFAULT_MIN_ZOOM;
+    const maxZoom = viewportProps?.maxZoom ?? DEFAULT_MAX_ZOOM;
+
+    // size of the parent while width or height is 'auto'
+    const [measured, setMeasured] = useState<Size | null>(null);
+    const autoSize = widthProp === 'auto' || heightProp === 'auto';
+    const width = Math.round(
+      widthProp !== 'auto'
+        ? widthProp
+        : heightProp !== 'auto' && aspectRatio
+        ? heightProp * aspectRatio
+        : measured?.width ?? 0,
+    );
+    const height = Math.round(
+      heightProp !== 'auto'
+        ? heightProp
+        : aspectRatio
+        ? width / aspectRatio
+        : measured?.height ?? 0,
+    );
+    // size the lines were last painted at
+    const paintedSizeRef = useRef<Size | null>(null);
+    const initDataLoadedRef = useRef(false);
+
+    // the screen's ratio changes when the window moves to another monitor
+    const [devicePixelRatio, setDevicePixelRatio] =
+      useState(getDevicePixelRatio);
+    const pixelRatio = pixelRatioProp ?? devicePixelRatio;
+    useEffect(
+      function watchPixelRatio() {
+        if (pixelRatioProp !== undefined) return;
+        let media: MediaQueryList | null = null;
+        function handleChange() {
+          setDevicePixelRatio(getDevicePixelRatio());
+          listen();
+        }
+        // a resolution query only matches the current ratio, renew it
+        function listen() {
+          media?.removeEventListener('change', handleChange);
+          media = window.matchMedia(
+            `(resolution: ${getDevicePixelRatio()}dppx)`,
+          );
+          media.addEventListener('change', handleChange);
+        }
+        handleChange();
+        return function cleanUp() {
+          media?.removeEventListener('change', handleChange);
+        };
+      },
+      [pixelRatioProp],
+    );
 
-    // prev
-    const [prevRect, setPrevRect] = useState({
-      width,
-      height,
-    });
+    // a loaded document keeps its own background until the prop changes
+    const [background, setBackground] = useState<string>(backgroundColor);
+    useEffect(() => {
+      setBackground(backgroundColor);
+    }, [backgroundColor]);
 
     const containerRef = useRef<HTMLDivElement>(null);
 
+    const imageRef = useRef<HTMLCanvasElement>(null);
     const gridRef = useRef<HTMLCanvasElement>(null);
     const drawingRef = useRef<HTMLCanvasElement>(null);
     const tempRef = useRef<HTMLCanvasElement>(null);
     const interfaceRef = useRef<HTMLCanvasElement>(null);
 
+    const brushColorProp = brushProps?.brushColor ?? '#444';
+    const brushRadiusProp = brushProps?.brushRadius ?? 10;
     const brushRef = useRef({
-      brushColor: brushProps?.brushColor ?? '#444',
-      brushRadius: brushProps?.brushRadius ?? 10,
+      brushColor: brushColorProp,
+      brushRadius: brushRadiusProp,
     });
+    // shortcuts change the brush until the props change again
+    useEffect(() => {
+      brushRef.current = {
+        brushColor: brushColorProp,
+        brushRadius: brushRadiusProp,
+      };
+    }, [brushColorProp, brushRadiusProp]);
+
+    const [erasing, setErasing] = useState(erase);
+    useEffect(() => {
+      setErasing(erase);
+    }, [erase]);
+
+    const keymapRef = useRef(keymap);
+    keymapRef.current = keymap;
+
+    const lazyRef = useRef(createLazyBrush(lazyRadius));
+    lazyRef.current.radius = lazyRadius;
 
     const valuesChangedRef = useRef<boolean>(true);
-    const isDrawingRef = useRef<boolean>(false);
-    const isPressingRef = useRef<boolean>(false);
 
-    const pointsRef = useRef<Array<Point>>([]);
+    const [bgImage, setBgImage] = useState<HTMLImageElement | null>(null);
+    // callbacks shouldn't reload the image when their identity changes
+    const imageCallbacksRef = useRef({ onImageLoad, onImageError });
+    imageCallbacksRef.current = { onImageLoad, onImageError };
+    const strokeCallbacksRef = useRef({
+      onStrokeStart,
+      onStrokeUpdate,
+      onStrokeEnd,
+      onStrokeCancel,
+    });
+    strokeCallbacksRef.current = {
+      onStrokeStart,
+      onStrokeUpdate,
+      onStrokeEnd,
+      onStrokeCancel,
+    };
+    // strokes in progress by pointer id
+    const strokesRef = useRef(new Map<number, ActiveStroke>());
+    const [defaultClientId] = useState(createId);
+    const clientId = clientIdProp ?? defaultClientId;
+    const operationCallbackRef = useRef(onLocalOperation);
+    operationCallbackRef.current = onLocalOperation;
+    // lamport clock of the operations seen and sent
+    const clockRef = useRef(0);
+    // when lines were made, by line id, lines without one came first
+    const stampsRef = useRef(new Map<string, OperationStamp>());
+    // lines made before the last clear don't come back
+    const clearedRef = useRef<OperationStamp | null>(null);
+    // erased line ids, their stroke may still be on its way
+    const erasedRef = useRef(new Set<string>());
+    // when the layer stack last changed, older stacks of collaborators
+    // don't replace it
+    const layersStampRef = useRef<OperationStamp | null>(null);
+    // strokes of collaborators in progress by stroke id
+    const remoteStrokesRef = useRef(new Map<string, StrokePreview>());
+    // the pointer dragging with the select tool
+    const selectPointerRef = useRef<number | null>(null);
+    // stylus pointers that are down, touches meanwhile are palms
+    const penPointersRef = useRef(new Set<number>());
+    const replayRef = useRef<ReplayController | null>(null);
+    const replaySpeedRef = useRef(1);
+    // lines at the end of the last replay, seeking it is fine while the
+    // drawing didn't change since
+    const replayedLinesRef = useRef<Array<Line> | null>(null);
+    // lines a replay has painted so far, shown instead of the drawing
+    // while it's on screen, null otherwise
+    const replayLinesRef = useRef<Array<Line> | null>(null);
+    const replayCallbacksRef = useRef({ onReplayProgress, onReplayEnd });
+    replayCallbacksRef.current = { onReplayProgress, onReplayEnd };
+
+    const selectionRef = useRef<Array<Line>>([]);
+    const selectionDragRef = useRef<SelectionDrag | null>(null);
     const linesRef = useRef<Array<Line>>([]);
+    const historyRef = useRef(createHistory());
+    const checkpointsRef = useRef<Array<Checkpoint>>([]);
+    // read when a line is saved, changing it shouldn't repaint the drawing
+    const checkpointPropsRef = useRef(checkpointProps);
+    checkpointPropsRef.current = checkpointProps;
+    // lines are stored in world coordinates, the view maps them to the screen
+    const viewRef = useRef<Viewport>(DEFAULT_VIEWPORT);
+    // screen positions of the pointers that are down
+    const pointersRef = useRef(new Map<number, Point>());
+    const gestureRef = useRef<ViewportGesture | null>(null);
+    const spacePressedRef = useRef(false);
+    // bottom to top, new lines go on the active layer
+    const layersRef = useRef<Array<Layer>>(DEFAULT_LAYERS);
+    const activeLayerRef = useRef(DEFAULT_LAYER.id);
+    // bitmaps of the layers, composited onto the drawing canvas
+    const layerCanvasesRef = useRef(new Map<string, HTMLCanvasElement>());
+
+    // a controlled `lines` prop is checked against the drawing after
+    // every change passed to onChange, the parent may not take it
+    const isControlledRef = useRef(!!controlledLines);
+    isControlledRef.current = !!controlledLines;
+    const [changeCount, setChangeCount] = useState(0);
+
+    const emitChange = useCallback(
+      (
+        command: HistoryCommand,
+        lines = linesRef.current,
+        type: ChangeType = command.type,
+      ) => {
+        onChange && onChange(lines, describeCommand(command, type));
+        if (isControlledRef.current) {
+          setChangeCount((count) => count + 1);
+        }
+      },
+      [onChange],
+    );
+
+    const triggerOnHistoryChange = useCallback(() => {
+      onHistoryChange && onHistoryChange(getHistoryState(historyRef.current));
+    }, [onHistoryChange]);
+
+    const recordCommand = useCallback(
+      (command: HistoryCommand) => {
+        pushCommand(historyRef.current, command, maxHistory);
+        triggerOnHistoryChange();
+      },
+      [maxHistory, triggerOnHistoryChange],
+    );
+
+    // stamp an operation and hand it to onLocalOperation
+    const sendOperation = useCallback(
+      (data: OperationData): OperationStamp | null => {
+        const onOperation = operationCallbackRef.current;
+        if (!onOperation) return null;
+        clockRef.current += 1;
+        const stamp = { clientId, clock: clockRef.current };
+        onOperation({ ...stamp, ...data });
+        return stamp;
+      },
+      [clientId],
+    );
 
-    const triggerOnChange = useCallback(() => {
-      onChange && onChange();
-    }, [onChange]);
+    // pieces of split lines keep the place of the line in the order
+    const stampPieces = useCallback(
+      (erased: Array<{ id: string; pieces: Array<Line> }>) => {
+        erased.forEach(({ id, pieces }) => {
+          const stamp = stampsRef.current.get(id);
+          pieces.forEach((piece) => {
+            if (stamp && piece.id !== undefined) {
+              stampsRef.current.set(piece.id, stamp);
+            }
+          });
+        });
+      },
+      [],
+    );
+
+    // lines new to the drawing date from the operation that brought them
+    const stampLines = useCallback(
+      (lines: Array<Line>, stamp: OperationStamp) => {
+        lines.forEach(({ id }) => {
+          if (id !== undefined && !stampsRef.current.has(id)) {
+            stampsRef.current.set(id, stamp);
+          }
+        });
+      },
+      [],
+    );
+
+    // tell collaborators about a change strokes, erasers and clearing
+    // don't cover
+    const sendChange = useCallback(
+      (
+        command: HistoryCommand,
+        next: Array<Line>,
+        source?: 'undo' | 'redo',
+      ) => {
+        if (!operationCallbackRef.current) return;
+        if (!command.removed.length && !command.inserted.length) return;
+        const data = getChangeData(command, next, source);
+        const stamp = sendOperation(data);
+        if (stamp) {
+          stampLines(
+            data.type === 'change'
+              ? data.inserted.map(({ line }) => line)
+              : data.lines,
+            stamp,
+          );
+        }
+      },
+      [sendOperation, stampLines],
+    );
 
     const drawInterface = useCallback(
       (
@@ -135,23 +777,30 @@ const Doodle = forwardRef<CanvasRefProps, CanvasProps>(
       ) => {
         const ctx = canvas.getContext('2d');
         if (!ctx) return;
-        ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+        clearCanvas(canvas);
 
         // Color brush preview according to erase prop
-        const bColor = erase ? '#dbb7bb' : brushRef.current.brushColor;
-
-        // Draw mouse point (the one directly at the cursor)
-        ctx.beginPath();
-        ctx.fillStyle = bColor;
-        ctx.arc(
-          pointer.x,
-          pointer.y,
-          brushRef.current.brushRadius,
-          0,
-          Math.PI * 2,
-          true,
-        );
-        ctx.fill();
+        const bColor = erasing ? ERASER_COLOR : brushRef.current.brushColor;
+
+        if (lazyRadius > 0) {
+          // the string and the pointer keep their size on screen
+          const { zoom } = viewRef.current;
+          // Draw the string between pointer and brush
+          ctx.beginPath();
+          ctx.lineWidth = 1 / zoom;
+          ctx.strokeStyle = '#555';
+          ctx.setLineDash([2 / zoom, 4 / zoom]);
+          ctx.moveTo(brush.x, brush.y);
+          ctx.lineTo(pointer.x, pointer.y);
+          ctx.stroke();
+          ctx.setLineDash([]);
+
+          // Draw mouse point (the one directly at the cursor)
+          ctx.beginPath();
+          ctx.fillStyle = '#555';
+          ctx.arc(pointer.x, pointer.y, 3 / zoom, 0, Math.PI * 2, true);
+          ctx.fill();
+        }
 
         // Draw brush preview
         ctx.beginPath();
@@ -166,24 +815,7 @@ const Doodle = forwardRef<CanvasRefProps, CanvasProps>(
         );
         ctx.fill();
       },
-      [erase],
-    );
-
-    const paintCursor = useCallback(
-      (evt: PointerEvent) => {
-        if (!readonly && interfaceRef.current) {
-          const rect = interfaceRef.current?.getBoundingClientRect();
-          if (!rect) {
-            return;
-          }
-          const pointer = {
-            x: evt.clientX - rect.left,
-            y: evt.clientY - rect.top,
-          };
-          drawInterface(interfaceRef.current, { pointer, brush: pointer });
-        }
-      },
-      [drawInterface, readonly],
+      [erasing, lazyRadius],
     );
 
     type PointContext = {
@@ -192,431 +824,2074 @@ const Doodle = forwardRef<CanvasRefProps, CanvasProps>(
     };
 
     const drawPoints = useCallback(
-      (
-        points: Array<Point>,
-        ctx: PointContext,
-        {
-          brushColor,
-          brushRadius,
-          pointerEvent,
-        }: {
-          brushColor: NonNullable<CSSProperties['color']>;
-          brushRadius: number;
-          pointerEvent?: PointerEvent;
-          immediate?: boolean;
-        },
-      ) => {
-        ctx.temp.lineJoin = 'round';
-        ctx.temp.lineCap = 'round';
-        ctx.temp.strokeStyle = brushColor === 'erase' ? '#dbb7bb' : brushColor;
-
+      (points: Array<Point>, ctx: PointContext, lineProps: LineProps) => {
         ctx.drawing.globalCompositeOperation =
-          brushColor === 'erase' ? 'destination-out' : 'source-over';
-
-        // ctx.temp.clearRect(0, 0, ctx.temp.canvas.width, ctx.temp.canvas.height);
+          lineProps.tool === 'eraser' ? 'destination-out' : 'source-over';
 
-        ctx.temp.lineWidth = getLineWidth(brushRadius, pointerEvent) * 2;
-
-        let p1 = points[0];
-        let p2 = points[1];
+        if (lineProps.tool === 'shape') {
+          drawShape(ctx.temp, { ...lineProps, points });
+          return;
+        }
 
-        if (!p1 || !p2) {
+        if (lineProps.tool === 'brush') {
+          drawStroke(ctx.temp, { ...lineProps, points });
           return;
         }
 
-        ctx.temp.beginPath();
-        ctx.temp.moveTo(p1.x, p2.y);
+        ctx.temp.lineJoin = 'round';
+        ctx.temp.lineCap = 'round';
+        ctx.temp.strokeStyle = ERASER_COLOR;
 
-        for (let i = 1; i < points.length; i++) {
-          // we pick the point between pi+1 & pi+2 as
-          // end point and p1 as our control point
-          if (!p1 || !p2) {
-            return;
-          }
-          const midPoint = pointBtw(p1, p2, 1 / 2);
-          ctx.temp.quadraticCurveTo(p1.x, p1.y, midPoint.x, midPoint.y);
-          p1 = points[i];
-          p2 = points[i + 1];
-        }
+        // ctx.temp.clearRect(0, 0, ctx.temp.canvas.width, ctx.temp.canvas.height);
 
-        if (p1) {
-          // Draw last line as a straight line while
-          // we wait for the next point to be able to calculate
-          // the bezier control point
-          ctx.temp.lineTo(p1.x, p1.y);
-          ctx.temp.stroke();
-        }
+        strokePoints(ctx.temp, points, lineProps.brushRadius * 2);
       },
       [],
     );
 
-    const saveLine = useCallback(
-      ({ brushColor: bColor, brushRadius: bRadius }: BrushProps = {}) => {
-        if (pointsRef.current.length < 2) return;
-
-        if (pointsRef.current[0]?.type === 'erase') {
-          bColor = 'erase';
-        }
-
-        // Save as new line
-
-        linesRef.current = [
-          ...linesRef.current,
-          {
-            points: [...pointsRef.current],
-            brushColor: bColor || brushRef.current.brushColor,
-            brushRadius: bRadius || brushRef.current.brushRadius,
-          },
-        ];
-
-        // Reset points array
-        pointsRef.current = [];
-
-        if (!tempRef.current || !drawingRef.current) return;
+    const getLayerCanvas = useCallback((layer: Layer) => {
+      let canvas = layerCanvasesRef.current.get(layer.id);
+      if (!canvas) {
+        canvas = document.createElement('canvas');
+        canvas.width = drawingRef.current?.width ?? 0;
+        canvas.height = drawingRef.current?.height ?? 0;
+        // same view as the drawing canvas
+        const drawingCtx = drawingRef.current?.getContext('2d');
+        canvas.getContext('2d')?.setTransform(drawingCtx?.getTransform());
+        layerCanvasesRef.current.set(layer.id, canvas);
+      }
+      return canvas;
+    }, []);
 
-        const width = tempRef.current.width;
-        const height = tempRef.current.height;
+    // show the layers on the drawing canvas
+    const compositeDrawing = useCallback(() => {
+      const drawingCtx = drawingRef.current?.getContext('2d');
+      if (!drawingCtx) return;
+      compositeLayers(drawingCtx, layersRef.current, (layer) =>
+        layerCanvasesRef.current.get(layer.id),
+      );
+    }, []);
+
+    // paint finished lines straight onto their layers
+    const renderDrawing = useCallback(
+      (lines: Array<Line>) => {
+        const layers = layersRef.current;
+        layers.forEach((layer) => {
+          const canvas = getLayerCanvas(layer);
+          clearCanvas(canvas);
+          const ctx = canvas.getContext('2d');
+          if (ctx) {
+            renderLines(ctx, getLayerLines(lines, layers, layer));
+          }
+        });
+        compositeDrawing();
+      },
+      [compositeDrawing, getLayerCanvas],
+    );
 
-        // Copy the line to the drawing canvas
-        const ctxDrawing = drawingRef.current.getContext('2d');
-        ctxDrawing?.drawImage(tempRef.current, 0, 0, width, height);
+    // stop a replay and show the drawing again
+    const stopReplay = useCallback(() => {
+      replayRef.current?.cancel();
+      if (!replayLinesRef.current) return;
+      replayLinesRef.current = null;
+      if (tempRef.current) {
+        clearCanvas(tempRef.current);
+      }
+      renderDrawing(linesRef.current);
+    }, [renderDrawing]);
+
+    // move the line painted on the temp canvas to its layer, returns the
+    // layer's canvas
+    const paintLine = useCallback(
+      (line: Line, { composite = true }: { composite?: boolean } = {}) => {
+        const layer = getLineLayer(line, layersRef.current);
+        if (!tempRef.current || !drawingRef.current || !layer) return null;
+
+        // Copy the line to its layer, pixel for pixel
+        const canvas = getLayerCanvas(layer);
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+          ctx.save();
+          ctx.setTransform(1, 0, 0, 1, 0, 0);
+          ctx.globalCompositeOperation =
+            line.tool === 'eraser' ? 'destination-out' : 'source-over';
+          ctx.drawImage(tempRef.current, 0, 0);
+          ctx.restore();
+        }
 
         // Clear the temporary line-drawing canvas
-        const ctxTemp = tempRef.current.getContext('2d');
-        ctxTemp?.clearRect(0, 0, width, height);
+        clearCanvas(tempRef.current);
+
+        if (composite) {
+          compositeDrawing();
+        }
+        return canvas;
+      },
+      [compositeDrawing, getLayerCanvas],
+    );
 
-        triggerOnChange();
+    const saveLine = useCallback(
+      (line: Line, { composite = true }: { composite?: boolean } = {}) => {
+        if (line.points.length < 2) return;
+
+        // Save as new line, keeping its identity since the history, the
+        // selection and a controlled `lines` prop refer to it
+        linesRef.current = [...linesRef.current, line];
+
+        const canvas = paintLine(line, { composite });
+        const layer = getLineLayer(line, layersRef.current);
+        if (canvas && layer) {
+          addCheckpoint(
+            checkpointsRef.current,
+            getLayerLines(linesRef.current, layersRef.current, layer),
+            canvas,
+            checkpointPropsRef.current,
+          );
+        }
+        return line;
       },
-      [triggerOnChange],
+      [paintLine],
     );
 
     // painting
+    // replay of lines drawn step by step after the lines on screen,
+    // started by loading or play(). It only paints, the lines are the
+    // drawing's from the start
+    const createLinesReplay = useCallback(
+      (lines: Array<Line>, ctx: PointContext, base: Array<Line>) => {
+        replayRef.current?.cancel();
+        replayLinesRef.current = base;
+        const replay = createReplay(lines, {
+          stepDuration: loadTimeOffset,
+          speed: replaySpeedRef.current,
+          onStep: (step) => {
+            const painted = replayLinesRef.current ?? base;
+            replayLinesRef.current = painted;
+            // every step paints the line so far, like strokes while drawing
+            clearCanvas(ctx.temp.canvas);
+            drawPoints(step.points, ctx, step.line);
+            if (step.done && step.line.points.length > 1) {
+              paintLine(step.line);
+              replayLinesRef.current = [...painted, step.line];
+            }
+          },
+          onRestart: () => {
+            clearCanvas(ctx.temp.canvas);
+            replayLinesRef.current = base;
+            renderDrawing(base);
+          },
+          onProgress: (progress) => {
+            replayCallbacksRef.current.onReplayProgress?.(progress);
+          },
+          onEnd: () => {
+            // the whole drawing is on screen again
+            replayLinesRef.current = null;
+            replayedLinesRef.current = linesRef.current;
+            replayCallbacksRef.current.onReplayEnd?.();
+          },
+        });
+        replayRef.current = replay;
+        return replay;
+      },
+      [drawPoints, loadTimeOffset, paintLine, renderDrawing],
+    );
+
     const simulateDrawingLines = useCallback(
       (lines: Array<Line>, ctx: PointContext, immediate?: boolean) => {
-        // Simulate live-drawing of the loaded lines
-        // TODO use a generator
-        let curTime = 0;
-        const timeoutGap = immediate ? 0 : loadTimeOffset;
+        if (!immediate) {
+          // Simulate live-drawing of the loaded lines
+          const base = linesRef.current;
+          const replay = createLinesReplay(lines, ctx, base);
+          linesRef.current = base.concat(
+            lines.filter((line) => line.points.length > 1),
+          );
+          replay.play();
+          return;
+        }
         lines.forEach((line) => {
-          const { points, brushColor, brushRadius } = line;
-
-          // Draw all at once if immediate flag is set, instead of using setTimeout
-          if (immediate) {
-            // Draw the points
-            drawPoints(points, ctx, {
-              brushColor,
-              brushRadius,
-            });
-
-            // Save line with the drawn points
-            pointsRef.current = points;
-            saveLine({ brushColor, brushRadius });
-            return;
-          }
-
-          // Use timeout to draw
-          for (let i = 1; i < points.length; i++) {
-            curTime += timeoutGap;
-            window.setTimeout(() => {
-              drawPoints(points, ctx, {
-                brushColor,
-                brushRadius,
-              });
-            }, curTime);
-          }
+          // Draw the points
+          drawPoints(line.points, ctx, line);
 
-          curTime += timeoutGap;
-          window.setTimeout(() => {
-            // Save this line with its props instead of this.props
-            pointsRef.current = points;
-            saveLine({ brushColor, brushRadius });
-          }, curTime);
+          // Save line with the drawn points
+          saveLine(line, { composite: false });
         });
+        compositeDrawing();
       },
-      [drawPoints, loadTimeOffset, saveLine],
+      [compositeDrawing, createLinesReplay, drawPoints, saveLine],
     );
 
-    const clear = useCallback(() => {
+    // wipe lines and canvases without touching the history
+    const resetDrawing = useCallback(() => {
+      replayRef.current?.cancel();
+      replayRef.current = null;
+      replayLinesRef.current = null;
       linesRef.current = [];
       valuesChangedRef.current = true;
-      // clear temporary and drawing canvas
+      // clear temporary, drawing and layer canvases
       if (!drawingRef.current || !tempRef.current) return;
-      const ctxDrawing = drawingRef.current.getContext('2d');
-      const ctxTemp = tempRef.current.getContext('2d');
-      if (!ctxDrawing || !ctxTemp) return;
-      ctxDrawing.clearRect(
-        0,
-        0,
-        drawingRef.current.width,
-        drawingRef.current.height,
+      clearCanvas(drawingRef.current);
+      clearCanvas(tempRef.current);
+      layerCanvasesRef.current.forEach(clearCanvas);
+    }, []);
+
+    // the replay running, paused or ended on the current drawing, a new
+    // replay of the whole drawing otherwise
+    const getReplay = useCallback(() => {
+      const replay = replayRef.current;
+      if (
+        replay &&
+        (!replay.isDone() || replayedLinesRef.current === linesRef.current)
+      ) {
+        return replay;
+      }
+      const tempCtx = tempRef.current?.getContext('2d');
+      const drawingCtx = drawingRef.current?.getContext('2d');
+      if (!tempCtx || !drawingCtx) return null;
+      // replays start from an empty canvas, the lines stay
+      clearCanvas(tempCtx.canvas);
+      renderDrawing([]);
+      return createLinesReplay(
+        linesRef.current,
+        { temp: tempCtx, drawing: drawingCtx },
+        [],
       );
-      ctxTemp.clearRect(0, 0, tempRef.current.width, tempRef.current.height);
-      triggerOnChange();
-    }, [triggerOnChange]);
+    }, [createLinesReplay, renderDrawing]);
+
+    const play = useCallback(() => {
+      const replay = getReplay();
+      if (replay?.isDone()) {
+        replay.seek(0);
+      }
+      replay?.play();
+    }, [getReplay]);
+
+    const pause = useCallback(() => {
+      replayRef.current?.pause();
+    }, []);
+
+    const seek = useCallback(
+      (progress: number) => {
+        getReplay()?.seek(progress);
+      },
+      [getReplay],
+    );
+
+    const setSpeed = useCallback((speed: number) => {
+      replaySpeedRef.current = speed;
+      replayRef.current?.setSpeed(speed);
+    }, []);
+
+    useEffect(function cancelReplay() {
+      return function cleanUp() {
+        replayRef.current?.cancel();
+      };
+    }, []);
 
     const paintData = useCallback(
-      (data: CanvasData, ctx: PointContext) => {
+      (
+        data: Pick<CanvasData, 'lines' | 'width' | 'height'>,
+        ctx: PointContext,
+        immediate?: boolean,
+      ) => {
         const { lines, width: canvasWidth, height: canvasHeight } = data;
         if (!lines || typeof lines.push !== 'function') {
-          return;
+          return [];
         }
 
-        clear();
+        resetDrawing();
 
-        if (width === canvasWidth && height === canvasHeight) {
-          simulateDrawingLines(lines, ctx);
-        } else {
-          // we need to rescale the lines based on saved & current dimensions
-          const scaleX = canvasWidth / width;
-          const scaleY = canvasHeight / height;
+        if (
+          (width === canvasWidth && height === canvasHeight) ||
+          !width ||
+          !height
+        ) {
+          simulateDrawingLines(lines, ctx, immediate);
+          return lines;
+        }
 
-          const scaleAvg = (scaleX + scaleY) / 2;
+        // we need to rescale the lines based on saved & current dimensions
+        const scaledLines = scaleLines(
+          lines,
+          { width: canvasWidth, height: canvasHeight },
+          { width, height },
+        );
+        simulateDrawingLines(scaledLines, ctx, immediate);
+        return scaledLines;
+      },
+      [height, resetDrawing, simulateDrawingLines, width],
+    );
 
-          simulateDrawingLines(
-            lines.map((line) => ({
-              ...line,
-              points: line.points.map((p) => ({
-                x: p.x * scaleX,
-                y: p.y * scaleY,
-              })),
-              brushRadius: line.brushRadius * scaleAvg,
-            })),
-            ctx,
+    // style of the line the user is about to draw
+    const getLineProps = useCallback((): LineProps => {
+      const { brushColor, brushRadius } = brushRef.current;
+      const layer = activeLayerRef.current;
+      if (erasing) {
+        return { tool: 'eraser', brushColor, brushRadius, layer };
+      }
+      if (tool !== 'brush' && tool !== 'select') {
+        return {
+          tool: 'shape',
+          shape: tool,
+          brushColor,
+          brushRadius,
+          layer,
+          ...(shapeFill ? { fill: true } : {}),
+          ...(tool === 'polygon' ? { sides: shapeSides } : {}),
+        };
+      }
+      const brush = getBrush(brushType);
+      const opacity = brushOpacity ?? brush.opacity;
+      return {
+        tool: 'brush',
+        brushColor,
+        brushRadius,
+        layer,
+        ...(brushType !== 'round' ? { brushType } : {}),
+        ...(opacity !== undefined && opacity < 1 ? { opacity } : {}),
+        ...(brushType === 'calligraphy' && brushAngle !== undefined
+          ? { angle: brushAngle }
+          : {}),
+        ...(brush.seeded ? { seed: createSeed() } : {}),
+      };
+    }, [
+      brushAngle,
+      brushOpacity,
+      brushType,
+      erasing,
+      shapeFill,
+      shapeSides,
+      tool,
+    ]);
+
+    // the strokes in progress back on the temp canvas, the local ones
+    // over those of collaborators
+    const paintStrokes = useCallback(
+      (
+        strokes: Array<StrokePreview> = [
+          ...Array.from(remoteStrokesRef.current.values()),
+          ...Array.from(strokesRef.current.values()),
+        ],
+      ) => {
+        const temp = tempRef.current?.getContext('2d');
+        const drawing = drawingRef.current?.getContext('2d');
+        if (!temp || !drawing) return;
+        // shapes are redrawn from scratch while they get dragged
+        clearCanvas(temp.canvas);
+        strokes.forEach((stroke) => {
+          drawPoints(
+            stroke.predicted?.length
+              ? stroke.points.concat(stroke.predicted)
+              : stroke.points,
+            { temp, drawing },
+            stroke.lineProps,
           );
-        }
+        });
       },
-      [clear, height, simulateDrawingLines, width],
+      [drawPoints],
     );
 
     const handlePointerMove = useCallback(
-      (ev: PointerEvent, x: number, y: number) => {
+      (ev: PointerEvent, stroke: ActiveStroke, x: number, y: number) => {
         if (disabled) return;
-        // Add erase type to the first point in eraser lines
-        const point = {
-          ...(erase ? { type: 'erase' } : {}),
-          x,
-          y,
-        };
-
-        const tempCtx = tempRef.current?.getContext('2d');
-        const drawingCtx = drawingRef.current?.getContext('2d');
+        const point: Point = { x, y };
+        if (ev.pointerType === 'pen' || ev.pointerType === 'touch') {
+          point.pressure = ev.pressure;
+          if (ev.pointerType === 'pen') {
+            point.tiltX = ev.tiltX;
+            point.tiltY = ev.tiltY;
+          }
+          if (pressure) {
+            point.width = getLineWidth(brushRef.current.brushRadius, ev) * 2;
+          }
+        }
 
-        if (!tempCtx || !drawingCtx) {
+        if (!tempRef.current || !drawingRef.current) {
           return;
         }
 
-        if (isPressingRef.current && !isDrawingRef.current) {
-          // Start drawing and add point
-          isDrawingRef.current = true;
-          pointsRef.current.push(point);
+        const { lineProps } = stroke;
+        if (lineProps.tool === 'shape' ? snapShapes : snapFreehand) {
+          const snapped = snapToGrid(point, gridStyle);
+          point.x = snapped.x;
+          point.y = snapped.y;
         }
 
-        if (isDrawingRef.current) {
-          pointsRef.current.push(point);
-          // Draw current points
-          drawPoints(
-            pointsRef.current,
-            {
-              temp: tempCtx,
-              drawing: drawingCtx,
-            },
-            {
-              brushColor:
-                point.type === 'erase' ? 'erase' : brushRef.current.brushColor,
-              brushRadius: brushRef.current.brushRadius,
-              pointerEvent: ev,
-            },
+        if (!stroke.info) {
+          // Start drawing and add point
+          stroke.info = {
+            id: createId(),
+            timestamp: Date.now(),
+            pointerId: stroke.pointerId,
+            pointerType: stroke.pointerType,
+          };
+          strokeCallbacksRef.current.onStrokeStart?.(
+            point,
+            lineProps,
+            stroke.info,
           );
+          sendOperation({
+            type: 'stroke-begin',
+            id: stroke.info.id,
+            lineProps,
+          });
+          if (lineProps.tool === 'shape') {
+            stroke.shapeOrigin = point;
+            // a click without dragging doesn't make a shape
+            return;
+          }
+          stroke.points.push(point);
         }
-      },
-      [disabled, drawPoints, erase],
-    );
 
-    const handleDrawStart = useCallback(
-      (ev: PointerEvent) => {
-        ev.preventDefault();
-        if (!interfaceRef.current) return;
-        if (!disabled) {
-          interfaceRef.current.focus();
+        if (lineProps.tool === 'shape' && stroke.shapeOrigin) {
+          stroke.points = getShapePoints(
+            lineProps.shape,
+            stroke.shapeOrigin,
+            point,
+            { constrain: ev.shiftKey, fromCenter: ev.altKey },
+          );
+          stroke.synced = 0;
+        } else {
+          stroke.points.push(point);
         }
-        // Start drawing
-        isPressingRef.current = true;
-
-        const { x, y } = getPointerPos(ev, interfaceRef.current);
-        // lazyRef.current?.update({ x, y }, { both: true });
-        // Ensure the initial down position gets added to our line
-        handlePointerMove(ev, x, y);
+        strokeCallbacksRef.current.onStrokeUpdate?.(
+          [...stroke.points],
+          stroke.info,
+        );
       },
-      [disabled, handlePointerMove],
+      [disabled, gridStyle, pressure, sendOperation, snapFreehand, snapShapes],
     );
 
-    const handleDrawMove = useCallback(
-      (ev: PointerEvent) => {
-        ev.preventDefault();
-
-        if (!interfaceRef.current || !drawingRef.current || !tempRef.current) {
+    // send the points the strokes got since the last time
+    const syncStrokes = useCallback(() => {
+      if (!operationCallbackRef.current) return;
+      strokesRef.current.forEach((stroke) => {
+        if (!stroke.info || stroke.synced >= stroke.points.length) return;
+        sendOperation({
+          type: 'stroke-points',
+          id: stroke.info.id,
+          from: stroke.synced,
+          points: stroke.points.slice(stroke.synced),
+        });
+        stroke.synced = stroke.points.length;
+      });
+    }, [sendOperation]);
+
+    // where the pointer is heading, painted but never saved
+    const predictStroke = useCallback(
+      (pointerId: number, events: Array<PointerEvent>) => {
+        const stroke = strokesRef.current.get(pointerId);
+        const canvas = interfaceRef.current;
+        if (!stroke || !canvas) return;
+        // lazy brushes, snapped points and shapes don't follow the pointer
+        if (
+          stroke.lineProps.tool === 'shape' ||
+          stroke.lazy.radius > 0 ||
+          snapFreehand
+        ) {
           return;
         }
-
-        const { x, y } = getPointerPos(ev, interfaceRef.current);
-        handlePointerMove(ev, x, y);
+        const last = stroke.points[stroke.points.length - 1];
+        stroke.predicted = events.map((ev) => ({
+          ...last,
+          ...screenToWorld(getPointerPos(ev, canvas), viewRef.current),
+        }));
       },
-      [handlePointerMove],
+      [snapFreehand],
     );
 
-    const handleDrawEnd = useCallback(
-      (ev: PointerEvent) => {
-        ev.preventDefault();
-
-        // Draw to this end pos
-        // handleDrawMove(e);
+    // report the end of a stroke, cancelled without a line
+    const endStroke = useCallback((stroke: ActiveStroke, line?: Line) => {
+      if (!stroke.info) return;
+      const { onStrokeEnd, onStrokeCancel } = strokeCallbacksRef.current;
+      if (line) {
+        onStrokeEnd?.(line, stroke.info);
+      } else {
+        onStrokeCancel?.(stroke.info);
+      }
+    }, []);
+
+    // drop strokes without making lines
+    const cancelStrokes = useCallback(
+      (match: (stroke: ActiveStroke) => boolean) => {
+        const cancelled = Array.from(strokesRef.current.values()).filter(match);
+        if (!cancelled.length) return;
+        cancelled.forEach((stroke) => {
+          strokesRef.current.delete(stroke.pointerId);
+          if (stroke.info) {
+            sendOperation({
+              type: 'stroke-end',
+              id: stroke.info.id,
+              line: null,
+            });
+          }
+          endStroke(stroke);
+        });
+        paintStrokes();
+      },
+      [endStroke, paintStrokes, sendOperation],
+    );
 
-        // Stop drawing & save the drawn line
-        isDrawingRef.current = false;
-        isPressingRef.current = false;
-        saveLine();
+    const paintSelection = useCallback(
+      (path?: Array<Point>, bounds = getLinesBounds(selectionRef.current)) => {
+        const ctx = interfaceRef.current?.getContext('2d');
+        if (!ctx) return;
+        clearCanvas(ctx.canvas);
+        drawSelection(ctx, {
+          bounds,
+          path,
+          mode: selectMode,
+          zoom: viewRef.current.zoom,
+        });
       },
-      [saveLine],
+      [selectMode],
     );
 
-    const handleDrawLeave = useCallback(
-      (ev: PointerEvent) => {
-        ev.preventDefault();
-        // Stop drawing & save the drawn line
-        isDrawingRef.current = false;
-        isPressingRef.current = false;
-        saveLine();
+    const setSelectedLines = useCallback(
+      (lines: Array<Line>) => {
+        selectionRef.current = lines;
+        onSelectionChange && onSelectionChange(lines);
+        paintSelection();
       },
-      [saveLine],
+      [onSelectionChange, paintSelection],
     );
 
-    const undo = useCallback(() => {
-      const prev = linesRef.current.slice(0, -1);
-      clear();
-      const tempCtx = tempRef.current?.getContext('2d');
-      const drawingCtx = drawingRef.current?.getContext('2d');
-      if (tempCtx && drawingCtx) {
-        simulateDrawingLines(
-          prev,
-          {
-            temp: tempCtx,
-            drawing: drawingCtx,
-          },
-          true,
+    // repaint the drawing after the history moved, starting from the
+    // closest checkpoint so only the lines after it are replayed
+    const repaint = useCallback(
+      (lines: Array<Line>) => {
+        resetDrawing();
+        const tempCtx = tempRef.current?.getContext('2d');
+        const drawingCtx = drawingRef.current?.getContext('2d');
+        if (tempCtx && drawingCtx) {
+          // every layer starts from its own checkpoint
+          const layers = layersRef.current;
+          const restored = new Set<Line>();
+          layers.forEach((layer) => {
+            const checkpoint = findCheckpoint(
+              checkpointsRef.current,
+              getLayerLines(lines, layers, layer),
+            );
+            const ctx = checkpoint && getLayerCanvas(layer).getContext('2d');
+            if (!checkpoint || !ctx) return;
+            restoreCheckpoint(ctx, checkpoint);
+            checkpoint.lines.forEach((line) => restored.add(line));
+          });
+          linesRef.current = lines.filter((line) => restored.has(line));
+          simulateDrawingLines(
+            lines.filter((line) => !restored.has(line)),
+            {
+              temp: tempCtx,
+              drawing: drawingCtx,
+            },
+            true,
+          );
+          linesRef.current = lines;
+        }
+        // drop selected lines the change removed
+        const selection = selectionRef.current.filter((line) =>
+          lines.includes(line),
+        );
+        if (selection.length !== selectionRef.current.length) {
+          setSelectedLines(selection);
+        }
+      },
+      [getLayerCanvas, resetDrawing, setSelectedLines, simulateDrawingLines],
+    );
+
+    // replace the selected lines, keeping their place in the drawing
+    const commitSelection = useCallback(
+      (type: 'transform' | 'delete', next: Array<Line>) => {
+        const lines = linesRef.current;
+        const command: HistoryCommand = {
+          type,
+          removed: selectionRef.current.map((line) => ({
+            index: lines.indexOf(line),
+            line,
+          })),
+          inserted: next.map((line, i) => ({
+            index: lines.indexOf(selectionRef.current[i] as Line),
+            line,
+          })),
+        };
+        const nextLines = applyCommand(lines, command);
+        recordCommand(command);
+        repaint(nextLines);
+        setSelectedLines(next);
+        sendChange(command, nextLines);
+        emitChange(command, nextLines);
+      },
+      [emitChange, recordCommand, repaint, sendChange, setSelectedLines],
+    );
+
+    const deleteSelection = useCallback(() => {
+      if (!selectionRef.current.length) return;
+      commitSelection('delete', []);
+    }, [commitSelection]);
+
+    const duplicateSelection = useCallback(() => {
+      if (!selectionRef.current.length) return;
+      const lines = linesRef.current;
+      // copies are lines of their own
+      const copies = selectionRef.current.map((line) => ({
+        ...transformLine(line, { type: 'move', dx: 10, dy: 10 }),
+        ...(line.id !== undefined ? { id: createId() } : {}),
+      }));
+      const command: HistoryCommand = {
+        type: 'add',
+        removed: [],
+        inserted: copies.map((line, i) => ({ index: lines.length + i, line })),
+      };
+      const nextLines = applyCommand(lines, command);
+      recordCommand(command);
+      repaint(nextLines);
+      setSelectedLines(copies);
+      sendChange(command, nextLines);
+      emitChange(command, nextLines);
+    }, [emitChange, recordCommand, repaint, sendChange, setSelectedLines]);
+
+    const handleSelectStart = useCallback(
+      (point: Point) => {
+        const bounds = getLinesBounds(selectionRef.current);
+        const handle = bounds && hitHandle(bounds, point, viewRef.current.zoom);
+        if (bounds && (handle || isInsideBounds(bounds, point))) {
+          selectionDragRef.current = {
+            type: 'transform',
+            handle,
+            origin: point,
+            bounds,
+            transform: null,
+          };
+          return;
+        }
+        selectionDragRef.current = { type: 'select', path: [point] };
+        setSelectedLines([]);
+      },
+      [setSelectedLines],
+    );
+
+    const handleSelectMove = useCallback(
+      (ev: PointerEvent, point: Point) => {
+        const drag = selectionDragRef.current;
+        if (!drag) return;
+
+        if (drag.type === 'select') {
+          drag.path =
+            selectMode === 'rectangle'
+              ? [drag.path[0] ?? point, point]
+              : [...drag.path, point];
+          paintSelection(drag.path);
+          return;
+        }
+
+        const tempCtx = tempRef.current?.getContext('2d');
+        if (!tempCtx) return;
+
+        if (!drag.transform) {
+          // lift the selection off the drawing while it moves
+          renderDrawing(
+            linesRef.current.filter(
+              (line) => !selectionRef.current.includes(line),
+            ),
+          );
+        }
+
+        drag.transform = getSelectionTransform(
+          drag.bounds,
+          drag.handle,
+          drag.origin,
+          point,
+          { constrain: ev.shiftKey },
+        );
+        const transform = drag.transform;
+        const moved = selectionRef.current.map((line) =>
+          transformLine(line, transform),
+        );
+        clearCanvas(tempCtx.canvas);
+        renderLines(tempCtx, moved);
+        paintSelection(undefined, getLinesBounds(moved));
+      },
+      [paintSelection, renderDrawing, selectMode],
+    );
+
+    const handleSelectEnd = useCallback(() => {
+      const drag = selectionDragRef.current;
+      selectionDragRef.current = null;
+      if (!drag) return;
+
+      if (drag.type === 'select') {
+        const layers = layersRef.current;
+        const selectable = linesRef.current.filter((line) =>
+          isEditable(getLineLayer(line, layers)),
         );
+        setSelectedLines(selectLines(selectable, drag.path, selectMode));
+        return;
       }
-      triggerOnChange();
-    }, [clear, simulateDrawingLines, triggerOnChange]);
 
-    // on mount
-    useEffect(() => {
-      const interfaceCanvas = interfaceRef.current;
+      const transform = drag.transform;
+      if (!transform) return;
+      if (tempRef.current) {
+        clearCanvas(tempRef.current);
+      }
+      commitSelection(
+        'transform',
+        selectionRef.current.map((line) => transformLine(line, transform)),
+      );
+    }, [commitSelection, selectMode, setSelectedLines]);
+
+    // put the view back on the contexts, resizing a canvas resets it
+    const applyViewTransform = useCallback(() => {
+      const canvases = [drawingRef, tempRef, interfaceRef]
+        .map(({ current }) => current)
+        .concat(Array.from(layerCanvasesRef.current.values()));
+      canvases.forEach((canvas) => {
+        const ctx = canvas?.getContext('2d');
+        if (ctx) setViewTransform(ctx, viewRef.current, pixelRatio);
+      });
+    }, [pixelRatio]);
+
+    // the image covers the canvas rectangle of the world
+    const paintImage = useCallback(() => {
+      if (!imageRef.current) return;
+      clearCanvas(imageRef.current);
+      const ctx = imageRef.current.getContext('2d');
+      if (!ctx || !bgImage) return;
+      setViewTransform(ctx, viewRef.current, pixelRatio);
+      drawBackgroundImage(
+        ctx,
+        bgImage,
+        {
+          fit: imgFit,
+          offsetX: imgOffsetX,
+          offsetY: imgOffsetY,
+        },
+        width,
+        height,
+      );
+    }, [bgImage, height, imgFit, imgOffsetX, imgOffsetY, pixelRatio, width]);
+
+    const paintGrid = useCallback(() => {
+      if (!gridRef.current) return;
+      clearCanvas(gridRef.current);
+      if (displayGrid) {
+        drawGrid(gridRef.current, gridStyle, pixelRatio, viewRef.current);
+      }
+    }, [displayGrid, gridStyle, pixelRatio]);
+
+    const setViewport = useCallback(
+      (view: Viewport) => {
+        viewRef.current = view;
+        applyViewTransform();
+        paintImage();
+        paintGrid();
+        // snapshots were taken with the previous view
+        checkpointsRef.current = [];
+        renderDrawing(replayLinesRef.current ?? linesRef.current);
+        // a stroke in progress is redrawn with its next point
+        if (tempRef.current) {
+          clearCanvas(tempRef.current);
+        }
+        paintSelection();
+        onViewportChange && onViewportChange(view);
+      },
+      [
+        applyViewTransform,
+        onViewportChange,
+        paintGrid,
+        paintImage,
+        paintSelection,
+        renderDrawing,
+      ],
+    );
+
+    const getViewport = useCallback(() => viewRef.current, []);
+
+    const zoomTo = useCallback(
+      (zoom: number, center = { x: width / 2, y: height / 2 }) => {
+        setViewport(
+          zoomAt(viewRef.current, zoom, center, { minZoom, maxZoom }),
+        );
+      },
+      [height, maxZoom, minZoom, setViewport, width],
+    );
+
+    const fitToContent = useCallback(
+      (padding = 20) => {
+        const bounds = getLinesBounds(linesRef.current);
+        setViewport(
+          bounds
+            ? fitBounds(bounds, width, height, padding, { minZoom, maxZoom })
+            : DEFAULT_VIEWPORT,
+        );
+      },
+      [height, maxZoom, minZoom, setViewport, width],
+    );
+
+    // two fingers pinch, space or the middle button drag the view
+    const startGesture = useCallback(
+      (ev: PointerEvent, pointer: Point) => {
+        if (!panZoom) return false;
+        const [a, b] = Array.from(pointersRef.current.values());
+        if (ev.pointerType === 'touch' && a && b) {
+          gestureRef.current = { type: 'pinch', a, b, view: viewRef.current };
+          // the first finger already started a stroke
+          cancelStrokes((stroke) => stroke.pointerType === 'touch');
+          selectPointerRef.current = null;
+          selectionDragRef.current = null;
+          setViewport(viewRef.current);
+          return true;
+        }
+        if (
+          spacePressedRef.current ||
+          ev.button === 1 ||
+          (ev.pointerType === 'touch' && inputMode === 'touch-gestures')
+        ) {
+          gestureRef.current = {
+            type: 'pan',
+            origin: pointer,
+            view: viewRef.current,
+          };
+          return true;
+        }
+        return false;
+      },
+      [cancelStrokes, inputMode, panZoom, setViewport],
+    );
+
+    const moveGesture = useCallback(
+      (pointer: Point) => {
+        const gesture = gestureRef.current;
+        if (!gesture) return;
+        if (gesture.type === 'pan') {
+          setViewport({
+            ...gesture.view,
+            x: gesture.view.x + pointer.x - gesture.origin.x,
+            y: gesture.view.y + pointer.y - gesture.origin.y,
+          });
+          return;
+        }
+        const [a, b] = Array.from(pointersRef.current.values());
+        if (a && b) {
+          setViewport(getPinchViewport(gesture, a, b, { minZoom, maxZoom }));
+        }
+      },
+      [maxZoom, minZoom, setViewport],
+    );
+
+    // true when the pointer wasn't drawing: it moved the view or it was
+    // ignored
+    const releasePointer = useCallback((ev: PointerEvent) => {
+      penPointersRef.current.delete(ev.pointerId);
+      if (!pointersRef.current.delete(ev.pointerId)) return true;
+      if (!gestureRef.current) return false;
+      gestureRef.current = null;
+      return true;
+    }, []);
+
+    // whether a stroke trails the brush preview
+    const hasPreviewStroke = useCallback(
+      () =>
+        Array.from(strokesRef.current.values()).some(
+          (stroke) => stroke.lazy === lazyRef.current,
+        ),
+      [],
+    );
 
-      function cursorMove(evt: PointerEvent) {
-        window.requestAnimationFrame(() => {
-          paintCursor(evt);
+    const handleDrawStart = useCallback(
+      (ev: PointerEvent) => {
+        ev.preventDefault();
+        if (!interfaceRef.current) return;
+        if (ev.pointerType === 'pen') {
+          penPointersRef.current.add(ev.pointerId);
+          // the palm may have touched down before the pen
+          cancelStrokes((stroke) => stroke.pointerType === 'touch');
+          gestureRef.current = null;
+        } else if (ev.pointerType === 'touch' && penPointersRef.current.size) {
+          return;
+        }
+        if (!disabled) {
+          interfaceRef.current.focus();
+        }
+        const screen = getPointerPos(ev, interfaceRef.current);
+        pointersRef.current.set(ev.pointerId, screen);
+        // keep the pointer when it leaves the canvas and comes back
+        interfaceRef.current.setPointerCapture(ev.pointerId);
+        if (startGesture(ev, screen)) return;
+        if (!canDraw(ev.pointerType, inputMode)) return;
+
+        // edits go onto the drawing, not onto a replay of it
+        stopReplay();
+        const { x, y } = screenToWorld(screen, viewRef.current);
+        if (tool === 'select') {
+          if (selectPointerRef.current !== null) return;
+          selectPointerRef.current = ev.pointerId;
+          handleSelectStart({ x, y });
+          return;
+        }
+
+        // hidden and locked layers can't be drawn on
+        const layer = findLayer(layersRef.current, activeLayerRef.current);
+        if (!isEditable(layer)) return;
+
+        // Start drawing, further pointers get a brush of their own
+        const previewed = hasPreviewStroke();
+        const stroke: ActiveStroke = {
+          pointerId: ev.pointerId,
+          pointerType: ev.pointerType,
+          lineProps: getLineProps(),
+          points: [],
+          info: null,
+          shapeOrigin: null,
+          predicted: [],
+          lazy: previewed ? createLazyBrush(lazyRadius) : lazyRef.current,
+          synced: 0,
+        };
+        strokesRef.current.set(ev.pointerId, stroke);
+        // touch and pen don't hover, so the brush starts under the pointer
+        updateLazyBrush(
+          stroke.lazy,
+          { x, y },
+          { both: previewed || ev.pointerType !== 'mouse' },
+        );
+        const { pointer, brush } = stroke.lazy;
+        if (!previewed) {
+          drawInterface(interfaceRef.current, { pointer, brush });
+        }
+        // Ensure the initial down position gets added to our line
+        handlePointerMove(ev, stroke, brush.x, brush.y);
+        paintStrokes();
+      },
+      [
+        cancelStrokes,
+        disabled,
+        drawInterface,
+        getLineProps,
+        handlePointerMove,
+        handleSelectStart,
+        hasPreviewStroke,
+        inputMode,
+        lazyRadius,
+        paintStrokes,
+        startGesture,
+        stopReplay,
+        tool,
+      ],
+    );
+
+    const handleDrawMove = useCallback(
+      (ev: PointerEvent) => {
+        ev.preventDefault();
+
+        if (!interfaceRef.current || !drawingRef.current || !tempRef.current) {
+          return;
+        }
+
+        const screen = getPointerPos(ev, interfaceRef.current);
+        const tracked = pointersRef.current.has(ev.pointerId);
+        if (tracked) {
+          pointersRef.current.set(ev.pointerId, screen);
+        }
+        if (gestureRef.current) {
+          if (tracked) {
+            moveGesture(screen);
+          }
+          return;
+        }
+
+        const { x, y } = screenToWorld(screen, viewRef.current);
+        if (tool === 'select') {
+          if (selectPointerRef.current === ev.pointerId) {
+            handleSelectMove(ev, { x, y });
+          }
+          return;
+        }
+        const stroke = strokesRef.current.get(ev.pointerId);
+        // otherwise the brush preview follows hovering mice and pens
+        if (!stroke && (ev.pointerType === 'touch' || hasPreviewStroke())) {
+          return;
+        }
+        const lazy = stroke ? stroke.lazy : lazyRef.current;
+        const moved = updateLazyBrush(lazy, { x, y });
+        const { pointer, brush } = lazy;
+        if (lazy === lazyRef.current) {
+          drawInterface(interfaceRef.current, { pointer, brush });
+        }
+        // the brush stays put while the string is slack
+        if (stroke && moved) {
+          handlePointerMove(ev, stroke, brush.x, brush.y);
+        }
+      },
+      [
+        drawInterface,
+        handlePointerMove,
+        handleSelectMove,
+        hasPreviewStroke,
+        moveGesture,
+        tool,
+      ],
+    );
+
+    // Stop drawing & save the drawn line
+    const finishLine = useCallback(
+      (stroke: ActiveStroke) => {
+        strokesRef.current.delete(stroke.pointerId);
+        stroke.predicted = [];
+        const { lineProps, points } = stroke;
+
+        if (lineProps.tool === 'eraser' && eraseMode !== 'pixel') {
+          // vector erasers change the lines instead of leaving a line behind
+          const eraser = { points, radius: lineProps.brushRadius };
+          paintStrokes();
+          // only the lines of the eraser's layer
+          const layers = layersRef.current;
+          const layer = getLineLayer({ ...lineProps, points }, layers);
+          const command = eraser.points.length
+            ? eraseLines(
+                linesRef.current,
+                eraser,
+                eraseMode,
+                (line) => getLineLayer(line, layers) === layer,
+              )
+            : null;
+          if (stroke.info) {
+            sendOperation({
+              type: 'stroke-end',
+              id: stroke.info.id,
+              line: null,
+            });
+          }
+          if (command) {
+            const nextLines = applyCommand(linesRef.current, command);
+            recordCommand(command);
+            repaint(nextLines);
+            paintStrokes();
+            const erased = getErasedLines(command);
+            stampPieces(erased);
+            if (erased.length) {
+              sendOperation({ type: 'erase', id: createId(), lines: erased });
+            }
+            emitChange(command, nextLines);
+          }
+          endStroke(
+            stroke,
+            eraser.points.length ? { ...lineProps, points } : undefined,
+          );
+          return;
+        }
+
+        // only this stroke goes to the drawing canvas, painted from the
+        // points that are kept so repaints look the same
+        stroke.points =
+          lineProps.tool === 'shape'
+            ? points
+            : simplifyPoints(points, simplifyTolerance);
+        paintStrokes([stroke]);
+        const line = saveLine({
+          ...lineProps,
+          ...(stroke.info ? { id: stroke.info.id } : {}),
+          points: stroke.points,
         });
+        if (strokesRef.current.size || remoteStrokesRef.current.size) {
+          paintStrokes();
+        }
+        if (stroke.info) {
+          const stamp = sendOperation({
+            type: 'stroke-end',
+            id: stroke.info.id,
+            line: line ?? null,
+          });
+          if (stamp && line) {
+            stampsRef.current.set(stroke.info.id, stamp);
+          }
+        }
+        if (line) {
+          const command = addCommand(
+            line.tool === 'eraser' ? 'erase' : 'add',
+            linesRef.current.length - 1,
+            line,
+          );
+          recordCommand(command);
+          emitChange(command);
+        }
+        endStroke(stroke, line);
+      },
+      [
+        emitChange,
+        endStroke,
+        eraseMode,
+        paintStrokes,
+        recordCommand,
+        repaint,
+        saveLine,
+        sendOperation,
+        simplifyTolerance,
+        stampPieces,
+      ],
+    );
+
+    const handleDrawEnd = useCallback(
+      (ev: PointerEvent) => {
+        ev.preventDefault();
+
+        if (releasePointer(ev)) return;
+        if (selectPointerRef.current === ev.pointerId) {
+          selectPointerRef.current = null;
+          handleSelectEnd();
+          return;
+        }
+        const stroke = strokesRef.current.get(ev.pointerId);
+        if (stroke) {
+          finishLine(stroke);
+        }
+      },
+      [finishLine, handleSelectEnd, releasePointer],
+    );
+
+    // the browser took the pointer over, e.g. for scrolling
+    const handleDrawCancel = useCallback(
+      (ev: PointerEvent) => {
+        if (releasePointer(ev)) return;
+        if (selectPointerRef.current === ev.pointerId) {
+          selectPointerRef.current = null;
+          handleSelectEnd();
+          return;
+        }
+        cancelStrokes((stroke) => stroke.pointerId === ev.pointerId);
+      },
+      [cancelStrokes, handleSelectEnd, releasePointer],
+    );
+
+    const clear = useCallback(() => {
+      const command = linesRef.current.length
+        ? replaceCommand('clear', linesRef.current, [])
+        : null;
+      if (command) {
+        recordCommand(command);
       }
+      resetDrawing();
+      if (selectionRef.current.length) {
+        setSelectedLines([]);
+      }
+      const stamp = sendOperation({ type: 'clear', id: createId() });
+      if (stamp) {
+        clearedRef.current = stamp;
+      }
+      if (command) {
+        emitChange(command, []);
+      }
+    }, [
+      emitChange,
+      recordCommand,
+      resetDrawing,
+      sendOperation,
+      setSelectedLines,
+    ]);
 
-      interfaceCanvas?.addEventListener('pointermove', cursorMove);
+    const getSelection = useCallback(() => selectionRef.current, []);
 
-      return function cleanUp() {
-        interfaceCanvas?.removeEventListener('pointermove', cursorMove);
-      };
-    }, [paintCursor]);
+    const setSelection = useCallback(
+      (lines: Array<Line>) => {
+        setSelectedLines(
+          lines.filter((line) => linesRef.current.includes(line)),
+        );
+      },
+      [setSelectedLines],
+    );
+
+    const clearSelection = useCallback(() => {
+      setSelectedLines([]);
+    }, [setSelectedLines]);
+
+    // the selection belongs to the select tool
+    useEffect(
+      function leaveSelectTool() {
+        if (tool !== 'select' && selectionRef.current.length) {
+          setSelectedLines([]);
+        }
+      },
+      [setSelectedLines, tool],
+    );
+
+    // replace the layer stack, the active layer falls back to the top one
+    // `send` tells collaborators about a new stack
+    const setLayers = useCallback(
+      (layers: Array<Layer>, active = activeLayerRef.current, send = true) => {
+        const prev = layersRef.current;
+        const changed = layers !== prev || active !== activeLayerRef.current;
+        layersRef.current = layers;
+        activeLayerRef.current = findLayer(layers, active)
+          ? active
+          : layers[layers.length - 1]?.id ?? active;
+        layerCanvasesRef.current.forEach((_, id) => {
+          if (!findLayer(layers, id)) layerCanvasesRef.current.delete(id);
+        });
+        compositeDrawing();
+        if (send && layers !== prev) {
+          const stamp = sendOperation({
+            type: 'layers',
+            id: createId(),
+            layers,
+          });
+          if (stamp) {
+            layersStampRef.current = stamp;
+          }
+        }
+        if (changed) {
+          onLayersChange && onLayersChange(layers, activeLayerRef.current);
+        }
+      },
+      [compositeDrawing, onLayersChange, sendOperation],
+    );
+
+    const getLayers = useCallback(() => layersRef.current, []);
+
+    const getActiveLayer = useCallback(() => activeLayerRef.current, []);
+
+    const addLayer = useCallback(
+      (props: LayerProps = {}) => {
+        const layers = layersRef.current;
+        const index =
+          layers.findIndex((layer) => layer.id === activeLayerRef.current) + 1;
+        const layer = createLayer({
+          name: `Layer ${layers.length + 1}`,
+          ...props,
+        });
+        setLayers(
+          [...layers.slice(0, index), layer, ...layers.slice(index)],
+          layer.id,
+        );
+        return layer.id;
+      },
+      [setLayers],
+    );
+
+    const setActiveLayer = useCallback(
+      (id: string) => {
+        if (findLayer(layersRef.current, id)) {
+          setLayers(layersRef.current, id);
+        }
+      },
+      [setLayers],
+    );
+
+    const updateLayer = useCallback(
+      (id: string, props: LayerProps) => {
+        setLayers(
+          layersRef.current.map((layer) =>
+            layer.id === id ? { ...layer, ...props, id } : layer,
+          ),
+        );
+      },
+      [setLayers],
+    );
+
+    const moveLayer = useCallback(
+      (id: string, index: number) => {
+        const layers = layersRef.current;
+        const layer = findLayer(layers, id);
+        if (!layer) return;
+        const next = layers.filter((other) => other !== layer);
+        next.splice(Math.max(0, Math.min(index, next.length)), 0, layer);
+        setLayers(next);
+        // lines without a layer of their own follow the bottom layer
+        if (next[0] !== layers[0]) {
+          repaint(linesRef.current);
+        }
+      },
+      [repaint, setLayers],
+    );
+
+    const mergeDown = useCallback(
+      (id = activeLayerRef.current) => {
+        const layers = layersRef.current;
+        const command = mergeLayerDown(linesRef.current, layers, id);
+        if (!command) return;
+        const below = layers[layers.findIndex((layer) => layer.id === id) - 1];
+        const nextLines = applyCommand(linesRef.current, command);
+        recordCommand(command);
+        setLayers(
+          applyLayerCommand(layers, command),
+          id === activeLayerRef.current ? below?.id : undefined,
+        );
+        repaint(nextLines);
+        sendChange(command, nextLines);
+        emitChange(command, nextLines);
+      },
+      [emitChange, recordCommand, repaint, sendChange, setLayers],
+    );
+
+    // lines changed by a collaborator, undo and redo find the lines of
+    // their commands wherever these went
+    const applyRemoteLines = useCallback(
+      (
+        command: HistoryCommand,
+        next: Array<Line>,
+        type: ChangeType = command.type,
+      ) => {
+        const prev = linesRef.current;
+        const added = next[next.length - 1];
+        if (
+          added &&
+          next.length === prev.length + 1 &&
+          prev.every((line, i) => line === next[i])
+        ) {
+          // only this line goes to the drawing canvas
+          stopReplay();
+          paintStrokes([{ lineProps: added, points: added.points }]);
+          saveLine(added);
+        } else {
+          repaint(next);
+        }
+        paintStrokes();
+        if (selectionRef.current.some((line) => !next.includes(line))) {
+          setSelectedLines(
+            selectionRef.current.filter((line) => next.includes(line)),
+          );
+        }
+        emitChange(command, next, type);
+      },
+      [
+        emitChange,
+        paintStrokes,
+        repaint,
+        saveLine,
+        setSelectedLines,
+        stopReplay,
+      ],
+    );
+
+    const applyRemoteOperation = useCallback(
+      (op: Operation) => {
+        if (op.clientId === clientId) return;
+        clockRef.current = Math.max(clockRef.current, op.clock);
+        const stamp = { clientId: op.clientId, clock: op.clock };
+        const getStamp = (line: Line) =>
+          line.id === undefined ? undefined : stampsRef.current.get(line.id);
+        const lines = linesRef.current;
+        const remoteStrokes = remoteStrokesRef.current;
+
+        if (op.type === 'stroke-begin') {
+          remoteStrokes.set(op.id, { lineProps: op.lineProps, points: [] });
+          return;
+        }
+
+        if (op.type === 'stroke-points') {
+          const stroke = remoteStrokes.get(op.id);
+          if (!stroke) return;
+          stroke.points = stroke.points.slice(0, op.from).concat(op.points);
+          paintStrokes();
+          return;
+        }
+
+        if (op.type === 'stroke-end') {
+          remoteStrokes.delete(op.id);
+          const cleared = clearedRef.current;
+          if (
+            !op.line ||
+            erasedRef.current.has(op.id) ||
+            (cleared && compareStamps(stamp, cleared) < 0) ||
+            lines.some((line) => line.id === op.id)
+          ) {
+            paintStrokes();
+            return;
+          }
+          const line: Line = { ...op.line, id: op.id };
+          stampsRef.current.set(op.id, stamp);
+          const command = addCommand(
+            line.tool === 'eraser' ? 'erase' : 'add',
+            getStampIndex(lines, stamp, getStamp),
+            line,
+          );
+          applyRemoteLines(command, applyCommand(lines, command));
+          return;
+        }
+
+        if (op.type === 'erase') {
+          stampPieces(op.lines);
+          let next = lines;
+          op.lines.forEach(({ id, pieces }) => {
+            erasedRef.current.add(id);
+            const index = next.findIndex((line) => line.id === id);
+            if (index >= 0) {
+              // the pieces take the place of the line
+              next = [
+                ...next.slice(0, index),
+                ...pieces,
+                ...next.slice(index + 1),
+              ];
+              return;
+            }
+            // erased before it got here, the pieces go where it would have
+            const pieceStamp = stampsRef.current.get(id) ?? stamp;
+            pieces.forEach((piece) => {
+              if (piece.id !== undefined) {
+                stampsRef.current.set(piece.id, pieceStamp);
+              }
+              const at = getStampIndex(next, pieceStamp, getStamp);
+              next = [...next.slice(0, at), piece, ...next.slice(at)];
+            });
+          });
+          const command = diffCommand('erase', lines, next);
+          if (command.removed.length || command.inserted.length) {
+            applyRemoteLines(command, next);
+          }
+          return;
+        }
+
+        if (op.type === 'layers') {
+          const current = layersStampRef.current;
+          if (current && compareStamps(stamp, current) < 0) return;
+          layersStampRef.current = stamp;
+          setLayers(op.layers, activeLayerRef.current, false);
+          // lines may have changed layer, or lost theirs
+          repaint(linesRef.current);
+          return;
+        }
+
+        if (op.type === 'change' || op.type === 'replace') {
+          const next =
+            op.type === 'change'
+              ? applyChange(lines, op, stamp, getStamp)
+              : op.lines;
+          stampLines(
+            op.type === 'change' ? op.inserted.map(({ line }) => line) : next,
+            stamp,
+          );
+          const command = diffCommand(op.command, lines, next);
+          if (command.removed.length || command.inserted.length) {
+            applyRemoteLines(command, next, op.source);
+          }
+          return;
+        }
+
+        const cleared = clearedRef.current;
+        if (!cleared || compareStamps(stamp, cleared) > 0) {
+          clearedRef.current = stamp;
+        }
+        // lines made after the clear stay
+        const next = lines.filter((line) => {
+          const lineStamp = getStamp(line);
+          return !!lineStamp && compareStamps(lineStamp, stamp) > 0;
+        });
+        if (next.length < lines.length) {
+          applyRemoteLines(diffCommand('clear', lines, next), next);
+        }
+      },
+      [
+        applyRemoteLines,
+        clientId,
+        paintStrokes,
+        repaint,
+        setLayers,
+        stampLines,
+        stampPieces,
+      ],
+    );
+
+    const undo = useCallback(() => {
+      const result = undoCommand(historyRef.current, linesRef.current);
+      if (!result) return;
+      setLayers(applyLayerCommand(layersRef.current, result.command));
+      repaint(result.lines);
+      triggerOnHistoryChange();
+      sendChange(result.command, result.lines, 'undo');
+      emitChange(result.command, result.lines, 'undo');
+    }, [emitChange, repaint, sendChange, setLayers, triggerOnHistoryChange]);
+
+    const redo = useCallback(() => {
+      const result = redoCommand(historyRef.current, linesRef.current);
+      if (!result) return;
+      setLayers(applyLayerCommand(layersRef.current, result.command));
+      repaint(result.lines);
+      triggerOnHistoryChange();
+      sendChange(result.command, result.lines, 'redo');
+      emitChange(result.command, result.lines, 'redo');
+    }, [emitChange, repaint, sendChange, setLayers, triggerOnHistoryChange]);
+
+    useEffect(
+      function followControlledLines() {
+        if (!controlledLines) return;
+        const prev = linesRef.current;
+        // the drawing shows them already, e.g. our own change coming back
+        // as copies
+        if (
+          controlledLines.length === prev.length &&
+          controlledLines.every((line, i) => isSameLine(prev[i] as Line, line))
+        ) {
+          return;
+        }
+        // commands of the old lines don't apply to the new ones
+        historyRef.current = createHistory();
+        triggerOnHistoryChange();
+
+        const tempCtx = tempRef.current?.getContext('2d');
+        const drawingCtx = drawingRef.current?.getContext('2d');
+        if (
+          tempCtx &&
+          drawingCtx &&
+          controlledLines.length > prev.length &&
+          prev.every((line, i) => isSameLine(line, controlledLines[i] as Line))
+        ) {
+          // lines were appended, draw just those
+          stopReplay();
+          simulateDrawingLines(
+            controlledLines.slice(prev.length),
+            { temp: tempCtx, drawing: drawingCtx },
+            true,
+          );
+          return;
+        }
+        repaint(controlledLines);
+      },
+      [
+        changeCount,
+        controlledLines,
+        repaint,
+        simulateDrawingLines,
+        stopReplay,
+        triggerOnHistoryChange,
+      ],
+    );
+
+    const canUndo = useCallback(
+      () => historyRef.current.undoStack.length > 0,
+      [],
+    );
+
+    const canRedo = useCallback(
+      () => historyRef.current.redoStack.length > 0,
+      [],
+    );
+
+    // repaint after the canvas changed from the `prev` size, moving the
+    // lines as the resize policy says
+    const resizeLines = useCallback(
+      (prev: Size | null) => {
+        const lines = linesRef.current;
+        const resized =
+          prev &&
+          prev.width &&
+          prev.height &&
+          width &&
+          height &&
+          (prev.width !== width || prev.height !== height);
+        if (!prev || !resized || !lines.length) {
+          repaint(lines);
+          return;
+        }
+
+        if (resizePolicy === 'scale-content') {
+          // the history and the selection keep pointing at the same lines
+          const scaled = new Map<Line, Line>();
+          const scale = (line: Line) => {
+            const next =
+              scaled.get(line) ??
+              scaleLine(line, width / prev.width, height / prev.height);
+            scaled.set(line, next);
+            return next;
+          };
+          const next = lines.map(scale);
+          mapHistory(historyRef.current, scale);
+          const selection = selectionRef.current.map(scale);
+          selectionRef.current = selection;
+          repaint(next);
+          if (selection.length) {
+            setSelectedLines(selection);
+          }
+          emitChange(replaceCommand('resize', lines, next), next);
+          return;
+        }
+
+        if (resizePolicy === 'crop') {
+          const view = viewRef.current;
+          const topLeft = screenToWorld({ x: 0, y: 0 }, view);
+          const bottomRight = screenToWorld({ x: width, y: height }, view);
+          const command = cropLines(lines, {
+            minX: topLeft.x,
+            minY: topLeft.y,
+            maxX: bottomRight.x,
+            maxY: bottomRight.y,
+          });
+          if (command) {
+            const next = applyCommand(lines, command);
+            recordCommand(command);
+            repaint(next);
+            sendChange(command, next);
+            emitChange(command, next);
+            return;
+          }
+        }
+
+        repaint(lines);
+      },
+      [
+        emitChange,
+        height,
+        recordCommand,
+        repaint,
+        resizePolicy,
+        sendChange,
+        setSelectedLines,
+        width,
+      ],
+    );
+    // read by the sizing effect, which shouldn't rerun for new callbacks
+    const resizeLinesRef = useRef(resizeLines);
+    resizeLinesRef.current = resizeLines;
 
     useEffect(() => {
       const canvas = interfaceRef.current;
       if (!canvas || readonly) return;
 
-      function drawBasedOnFramerate(evt: PointerEvent) {
-        window.requestAnimationFrame(() => {
-          handleDrawMove(evt);
+      // moves wait for the next frame, every position the pointers went
+      // through gets drawn then
+      let pending: Array<PointerEvent> = [];
+      const predictions = new Map<number, Array<PointerEvent>>();
+      let frame: number | null = null;
+
+      function flushMoves() {
+        if (frame !== null) {
+          window.cancelAnimationFrame(frame);
+          frame = null;
+        }
+        const events = pending;
+        pending = [];
+        events.forEach((ev) => handleDrawMove(ev));
+        predictions.forEach((predicted, pointerId) => {
+          predictStroke(pointerId, predicted);
         });
+        predictions.clear();
+        if (events.length && strokesRef.current.size) {
+          paintStrokes();
+          syncStrokes();
+        }
       }
 
-      canvas.addEventListener('pointerdown', handleDrawStart);
-      canvas.addEventListener('pointermove', drawBasedOnFramerate);
-      canvas.addEventListener('pointerup', handleDrawEnd);
-      canvas.addEventListener('pointerleave', handleDrawLeave);
+      function handleMove(ev: PointerEvent) {
+        ev.preventDefault();
+        // fast pointers fire fewer events than positions they report
+        const coalesced =
+          typeof ev.getCoalescedEvents === 'function'
+            ? ev.getCoalescedEvents()
+            : [];
+        pending = pending.concat(coalesced.length ? coalesced : [ev]);
+        if (predictStrokes && typeof ev.getPredictedEvents === 'function') {
+          predictions.set(ev.pointerId, ev.getPredictedEvents());
+        }
+        if (frame === null) {
+          frame = window.requestAnimationFrame(flushMoves);
+        }
+      }
+
+      // pending moves come before the pointer goes down or up
+      function handleDown(ev: PointerEvent) {
+        flushMoves();
+        handleDrawStart(ev);
+      }
+
+      function handleUp(ev: PointerEvent) {
+        flushMoves();
+        handleDrawEnd(ev);
+      }
+
+      function handleCancel(ev: PointerEvent) {
+        flushMoves();
+        handleDrawCancel(ev);
+      }
+
+      canvas.addEventListener('pointerdown', handleDown);
+      canvas.addEventListener('pointermove', handleMove);
+      canvas.addEventListener('pointerup', handleUp);
+      canvas.addEventListener('pointercancel', handleCancel);
 
       return function cleanUp() {
-        canvas.removeEventListener('pointerdown', handleDrawStart);
-        canvas.removeEventListener('pointermove', drawBasedOnFramerate);
-        canvas.removeEventListener('pointerup', handleDrawEnd);
-        canvas.removeEventListener('pointerleave', handleDrawLeave);
+        if (frame !== null) {
+          window.cancelAnimationFrame(frame);
+        }
+        canvas.removeEventListener('pointerdown', handleDown);
+        canvas.removeEventListener('pointermove', handleMove);
+        canvas.removeEventListener('pointerup', handleUp);
+        canvas.removeEventListener('pointercancel', handleCancel);
       };
     }, [
+      handleDrawCancel,
       handleDrawEnd,
-      handleDrawLeave,
       handleDrawMove,
       handleDrawStart,
+      paintStrokes,
+      predictStroke,
+      predictStrokes,
       readonly,
+      syncStrokes,
     ]);
 
+    const toggleEraser = useCallback(() => {
+      setErasing(!erasing);
+      onEraseChange && onEraseChange(!erasing);
+    }, [erasing, onEraseChange]);
+
+    const resizeBrush = useCallback(
+      (direction: 1 | -1) => {
+        const { brushRadius } = brushRef.current;
+        const step = Math.max(1, Math.round(brushRadius * 0.2));
+        const next = Math.max(1, brushRadius + direction * step);
+        brushRef.current = { ...brushRef.current, brushRadius: next };
+        if (interfaceRef.current && tool !== 'select') {
+          const { pointer, brush } = lazyRef.current;
+          drawInterface(interfaceRef.current, { pointer, brush });
+        }
+        onBrushRadiusChange && onBrushRadiusChange(next);
+      },
+      [drawInterface, onBrushRadiusChange, tool],
+    );
+
+    useEffect(
+      function keyboardShortcuts() {
+        const canvas = interfaceRef.current;
+        if (!canvas || readonly || disabled) return;
+
+        const actions: Record<ShortcutAction, () => void> = {
+          undo,
+          redo,
+          decreaseBrush: () => resizeBrush(-1),
+          increaseBrush: () => resizeBrush(1),
+          toggleEraser,
+          deleteSelection,
+        };
+
+        function handleKeyDown(ev: KeyboardEvent) {
+          const action = findShortcutAction(ev, keymapRef.current);
+          if (!action) return;
+          ev.preventDefault();
+          actions[action]();
+        }
+
+        canvas.addEventListener('keydown', handleKeyDown);
+        return function cleanUp() {
+          canvas.removeEventListener('keydown', handleKeyDown);
+        };
+      },
+      [
+        deleteSelection,
+        disabled,
+        readonly,
+        redo,
+        resizeBrush,
+        toggleEraser,
+        undo,
+      ],
+    );
+
+    useEffect(
+      function viewportNavigation() {
+        const canvas = interfaceRef.current;
+        if (!canvas || readonly || !panZoom) return;
+
+        function handleWheel(ev: WheelEvent) {
+          // the view stays put under a stroke
+          if (
+            !canvas ||
+            strokesRef.current.size ||
+            selectPointerRef.current !== null
+          ) {
+            return;
+          }
+          ev.preventDefault();
+          const view = viewRef.current;
+          setViewport(
+            zoomAt(
+              view,
+              view.zoom * getWheelZoom(ev),
+              getPointerPos(ev, canvas),
+              { minZoom, maxZoom },
+            ),
+          );
+        }
+
+        function handleKeyDown(ev: KeyboardEvent) {
+          if (ev.code !== 'Space' || !canvas) return;
+          ev.preventDefault();
+          spacePressedRef.current = true;
+          canvas.style.cursor = 'grab';
+        }
+
+        function releaseSpace() {
+          spacePressedRef.current = false;
+          if (canvas) canvas.style.cursor = '';
+        }
+
+        function handleKeyUp(ev: KeyboardEvent) {
+          if (ev.code === 'Space') releaseSpace();
+        }
+
+        canvas.addEventListener('wheel', handleWheel, { passive: false });
+        canvas.addEventListener('keydown', handleKeyDown);
+        canvas.addEventListener('keyup', handleKeyUp);
+        canvas.addEventListener('blur', releaseSpace);
+
+        return function cleanUp() {
+          canvas.removeEventListener('wheel', handleWheel);
+          canvas.removeEventListener('keydown', handleKeyDown);
+          canvas.removeEventListener('keyup', handleKeyUp);
+          canvas.removeEventListener('blur', releaseSpace);
+          releaseSpace();
+        };
+      },
+      [maxZoom, minZoom, panZoom, readonly, setViewport],
+    );
+
     // div container resize causes rerender
     // use requestAnimationFrame to handle canvas element flicking issue
     useEffect(
-      function interfaceAndPrevRect() {
-        setPrevRect({
-          width,
-          height,
-        });
+      function interfaceCanvas() {
         const rid = window.requestAnimationFrame(() => {
           if (interfaceRef.current) {
-            setCanvasSize(interfaceRef.current, width, height);
+            setCanvasSize(interfaceRef.current, width, height, pixelRatio);
+            applyViewTransform();
           }
         });
         return function cleanUp() {
           window.cancelAnimationFrame(rid);
         };
       },
-      [height, width],
+      [applyViewTransform, height, pixelRatio, width],
+    );
+
+    useEffect(
+      function loadBackgroundImage() {
+        setBgImage(null);
+        if (!imgSrc) return;
+        let cancelled = false;
+        loadImage(imgSrc, imgCrossOrigin).then(
+          (img) => {
+            if (cancelled) return;
+            setBgImage(img);
+            imageCallbacksRef.current.onImageLoad?.(img);
+          },
+          (error: Error) => {
+            if (cancelled) return;
+            imageCallbacksRef.current.onImageError?.(error);
+          },
+        );
+        return function cleanUp() {
+          cancelled = true;
+        };
+      },
+      [imgCrossOrigin, imgSrc],
+    );
+
+    useEffect(
+      function imageCanvas() {
+        const rid = window.requestAnimationFrame(() => {
+          if (imageRef.current) {
+            setCanvasSize(imageRef.current, width, height, pixelRatio);
+            paintImage();
+          }
+        });
+        return function cleanUp() {
+          window.cancelAnimationFrame(rid);
+        };
+      },
+      [height, paintImage, pixelRatio, width],
     );
 
     useEffect(
       function gridCanvas() {
         const rid = window.requestAnimationFrame(() => {
           if (gridRef.current) {
-            setCanvasSize(gridRef.current, width, height);
-            if (displayGrid) {
-              drawGrid(gridRef.current, gridColor);
-            }
+            setCanvasSize(gridRef.current, width, height, pixelRatio);
+            paintGrid();
           }
         });
         return function cleanUp() {
           window.cancelAnimationFrame(rid);
         };
       },
-      [displayGrid, gridColor, height, width],
+      [height, paintGrid, pixelRatio, width],
     );
 
     useEffect(
       function tempAndDrawingCanvas() {
         const rid = window.requestAnimationFrame(() => {
           if (tempRef.current) {
-            setCanvasSize(tempRef.current, width, height);
+            setCanvasSize(tempRef.current, width, height, pixelRatio);
           }
           if (drawingRef.current) {
-            setCanvasSize(drawingRef.current, width, height);
-          }
-          const tempCtx = tempRef.current?.getContext('2d');
-          const drawingCtx = drawingRef.current?.getContext('2d');
-          if (tempCtx && drawingCtx) {
-            paintData(
-              { lines: linesRef.current, width, height },
-              {
-                temp: tempCtx,
-                drawing: drawingCtx,
-              },
-            );
+            setCanvasSize(drawingRef.current, width, height, pixelRatio);
           }
+          layerCanvasesRef.current.forEach((canvas) => {
+            setCanvasSize(canvas, width, height, pixelRatio);
+          });
+          applyViewTransform();
+          // snapshots of the previous size can't be restored
+          checkpointsRef.current = [];
+          resizeLinesRef.current(paintedSizeRef.current);
+          paintedSizeRef.current = { width, height };
         });
         return function cleanUp() {
           window.cancelAnimationFrame(rid);
         };
       },
-      [height, paintData, width],
+      [applyViewTransform, height, pixelRatio, width],
+    );
+
+    useEffect(
+      function observeContainer() {
+        const container = containerRef.current;
+        if (!container || !autoSize || typeof ResizeObserver === 'undefined') {
+          return;
+        }
+        const observer = new ResizeObserver(([entry]) => {
+          if (!entry) return;
+          const next = {
+            width: Math.round(entry.contentRect.width),
+            height: Math.round(entry.contentRect.height),
+          };
+          setMeasured((prev) =>
+            prev?.width === next.width && prev.height === next.height
+              ? prev
+              : next,
+          );
+        });
+        observer.observe(container);
+        return function cleanUp() {
+          observer.disconnect();
+        };
+      },
+      [autoSize],
+    );
+
+    const getSaveData = useCallback(
+      (options?: SaveDataOptions) =>
+        serializeSaveData(
+          linesRef.current,
+          {
+            width,
+            height,
+            background,
+            layers: layersRef.current,
+          },
+          options,
+        ),
+      [background, height, width],
+    );
+
+    const loadSaveData = useCallback(
+      (
+        data: string | CanvasData,
+        { immediate = false, recordHistory = true }: LoadOptions = {},
+      ) => {
+        const doc = parseSaveData(data);
+        const tempCtx = tempRef.current?.getContext('2d');
+        const drawingCtx = drawingRef.current?.getContext('2d');
+        if (!tempCtx || !drawingCtx) return;
+        const prev = linesRef.current;
+        const prevLayers = layersRef.current;
+        const layers = doc.layers?.length ? doc.layers : DEFAULT_LAYERS;
+        setBackground(doc.background);
+        setLayers(layers, layers[layers.length - 1]?.id, recordHistory);
+        const next = paintData(
+          doc,
+          { temp: tempCtx, drawing: drawingCtx },
+          immediate,
+        );
+        const command: HistoryCommand = {
+          ...replaceCommand('load', prev, next),
+          removedLayers: prevLayers.map((layer, index) => ({ index, layer })),
+          insertedLayers: layers.map((layer, index) => ({ index, layer })),
+        };
+        if (recordHistory) {
+          recordCommand(command);
+          sendChange(command, next);
+        }
+        emitChange(command, next);
+      },
+      [emitChange, paintData, recordCommand, sendChange, setLayers],
+    );
+
+    const exportImage = useCallback(
+      (options: ExportImageOptions & { as?: 'blob' | 'dataURL' } = {}) =>
+        exportDocumentImage(
+          {
+            lines: linesRef.current,
+            width,
+            height,
+            background,
+            layers: layersRef.current,
+            grid: gridStyle,
+            image: bgImage
+              ? {
+                  img: bgImage,
+                  fit: imgFit,
+                  offsetX: imgOffsetX,
+                  offsetY: imgOffsetY,
+                }
+              : undefined,
+          },
+          // overloads can't be picked from a union
+          options as ExportImageOptions & { as: 'dataURL' },
+        ),
+      [
+        background,
+        bgImage,
+        gridStyle,
+        height,
+        imgFit,
+        imgOffsetX,
+        imgOffsetY,
+        width,
+      ],
+    ) as CanvasRefProps['exportImage'];
+
+    const exportSVG = useCallback(
+      (options?: ExportSVGOptions) =>
+        exportDocumentSVG(
+          {
+            lines: linesRef.current,
+            width,
+            height,
+            background,
+            layers: layersRef.current,
+            image: bgImage
+              ? {
+                  src: bgImage.src,
+                  width: bgImage.width,
+                  height: bgImage.height,
+                  fit: imgFit,
+                  offsetX: imgOffsetX,
+                  offsetY: imgOffsetY,
+                }
+              : undefined,
+          },
+          options,
+        ),
+      [background, bgImage, height, imgFit, imgOffsetX, imgOffsetY, width],
+    );
+
+    // only read once, later updates go through loadSaveData
+    const initialLoadRef = useRef({ initData, immediateLoading, loadSaveData });
+    initialLoadRef.current = { initData, immediateLoading, loadSaveData };
+
+    // load initData once the canvases got their size
+    useEffect(
+      function initialData() {
+        const { initData } = initialLoadRef.current;
+        // an 'auto' sized canvas waits for its size
+        if (!initData || initDataLoadedRef.current || !width || !height) {
+          return;
+        }
+        initDataLoadedRef.current = true;
+        const rid = window.requestAnimationFrame(() => {
+          const { immediateLoading, loadSaveData } = initialLoadRef.current;
+          loadSaveData(initData, {
+            immediate: immediateLoading,
+            recordHistory: false,
+          });
+        });
+        return function cleanUp() {
+          window.cancelAnimationFrame(rid);
+        };
+      },
+      [width, height],
     );
 
     // // utilities
@@ -624,9 +2899,68 @@ const Doodle = forwardRef<CanvasRefProps, CanvasProps>(
       ref,
       () => ({
         undo: undo,
+        redo: redo,
+        canUndo: canUndo,
+        canRedo: canRedo,
         clear: clear,
+        getSaveData: getSaveData,
+        loadSaveData: loadSaveData,
+        exportImage: exportImage,
+        exportSVG: exportSVG,
+        getSelection: getSelection,
+        setSelection: setSelection,
+        clearSelection: clearSelection,
+        deleteSelection: deleteSelection,
+        duplicateSelection: duplicateSelection,
+        play: play,
+        pause: pause,
+        seek: seek,
+        setSpeed: setSpeed,
+        getViewport: getViewport,
+        setViewport: setViewport,
+        zoomTo: zoomTo,
+        fitToContent: fitToContent,
+        getLayers: getLayers,
+        getActiveLayer: getActiveLayer,
+        addLayer: addLayer,
+        setActiveLayer: setActiveLayer,
+        updateLayer: updateLayer,
+        moveLayer: moveLayer,
+        mergeDown: mergeDown,
+        applyRemoteOperation: applyRemoteOperation,
       }),
-      [clear, undo],
+      [
+        addLayer,
+        applyRemoteOperation,
+        canRedo,
+        canUndo,
+        clear,
+        clearSelection,
+        deleteSelection,
+        duplicateSelection,
+        exportImage,
+        exportSVG,
+        fitToContent,
+        getActiveLayer,
+        getLayers,
+        getSaveData,
+        getSelection,
+        getViewport,
+        loadSaveData,
+        mergeDown,
+        moveLayer,
+        pause,
+        play,
+        redo,
+        seek,
+        setActiveLayer,
+        setSelection,
+        setSpeed,
+        setViewport,
+        undo,
+        updateLayer,
+        zoomTo,
+      ],
     );
 
     return (
@@ -634,13 +2968,23 @@ const Doodle = forwardRef<CanvasRefProps, CanvasProps>(
         style={{
           display: 'block',
           position: 'relative',
-          background: backgroundColor,
+          background: background,
           touchAction: 'none',
-          width: width,
-          height: height,
+          width: widthProp === 'auto' ? '100%' : width,
+          height: heightProp === 'auto' && !aspectRatio ? '100%' : height,
         }}
         ref={containerRef}
       >
+        {/* background image, sits below the drawing so the eraser keeps it */}
+        <canvas
+          ref={imageRef}
+          key="image"
+          style={{
+            ...basicStyles,
+            zIndex: 9,
+            visibility: bgImage ? 'visible' : 'hidden',
+          }}
+        />
         <canvas
           ref={gridRef}
           key="grid"
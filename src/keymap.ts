@@ -0,0 +1,54 @@
+export type ShortcutAction =
+  | 'undo'
+  | 'redo'
+  | 'decreaseBrush'
+  | 'increaseBrush'
+  | 'toggleEraser'
+  | 'deleteSelection';
+
+/**
+ * Shortcuts per action, like 'Shift+Mod+Z' where Mod is Ctrl, or Cmd on
+ * macs. Actions left out keep their default, null turns one off.
+ */
+export type Keymap = Partial<
+  Record<ShortcutAction, string | Array<string> | null>
+>;
+
+export const DEFAULT_KEYMAP: Record<ShortcutAction, Array<string>> = {
+  undo: ['Mod+Z'],
+  redo: ['Shift+Mod+Z'],
+  decreaseBrush: ['['],
+  increaseBrush: [']'],
+  toggleEraser: ['E'],
+  deleteSelection: ['Delete', 'Backspace'],
+};
+
+export function matchesShortcut(ev: KeyboardEvent, shortcut: string) {
+  const parts = shortcut.split('+');
+  const key = parts.pop();
+  if (!key) return false;
+  const modifiers = parts.map((part) => part.toLowerCase());
+  const mod = ev.ctrlKey || ev.metaKey;
+  return (
+    ev.key.toLowerCase() === key.toLowerCase() &&
+    modifiers.includes('shift') === ev.shiftKey &&
+    modifiers.includes('alt') === ev.altKey &&
+    modifiers.includes('mod') === mod
+  );
+}
+
+export function findShortcutAction(
+  ev: KeyboardEvent,
+  keymap: Keymap = {},
+): ShortcutAction | null {
+  const actions = Object.keys(DEFAULT_KEYMAP) as Array<ShortcutAction>;
+  const match = actions.find((action) => {
+    const shortcuts =
+      keymap[action] === undefined ? DEFAULT_KEYMAP[action] : keymap[action];
+    if (!shortcuts) return false;
+    return (typeof shortcuts === 'string' ? [shortcuts] : shortcuts).some(
+      (shortcut) => matchesShortcut(ev, shortcut),
+    );
+  });
+  return match ?? null;
+}
@@ -0,0 +1,154 @@
+import type { Line } from '.';
+import type { HistoryCommand } from './history';
+import { clearCanvas, createId, renderLines } from './utils';
+
+// how a layer mixes with the layers below it, css mix-blend-mode names
+export type BlendMode =
+  | 'normal'
+  | 'multiply'
+  | 'screen'
+  | 'overlay'
+  | 'darken'
+  | 'lighten'
+  | 'color-dodge'
+  | 'color-burn'
+  | 'hard-light'
+  | 'soft-light'
+  | 'difference'
+  | 'exclusion'
+  | 'hue'
+  | 'saturation'
+  | 'color'
+  | 'luminosity';
+
+/**
+ * A named group of lines painted together. Lines pick their layer by its
+ * id, lines without a known one are on the bottom layer.
+ */
+export type Layer = {
+  id: string;
+  name: string;
+  visible: boolean;
+  // 0 to 1
+  opacity: number;
+  // locked layers can't be drawn on, erased or selected
+  locked: boolean;
+  blendMode: BlendMode;
+};
+
+export type LayerProps = Partial<Omit<Layer, 'id'>>;
+
+export function createLayer(props: LayerProps = {}, id = createId()): Layer {
+  return {
+    id,
+    name: 'Layer',
+    visible: true,
+    opacity: 1,
+    locked: false,
+    blendMode: 'normal',
+    ...props,
+  };
+}
+
+export const DEFAULT_LAYER = createLayer({ name: 'Layer 1' }, 'layer-1');
+
+// bottom to top, there is always at least one layer
+export const DEFAULT_LAYERS: Array<Layer> = [DEFAULT_LAYER];
+
+export function findLayer(layers: Array<Layer>, id?: string) {
+  return layers.find((layer) => layer.id === id);
+}
+
+export function getLineLayer(line: Line, layers: Array<Layer>) {
+  return findLayer(layers, line.layer) ?? layers[0];
+}
+
+export function getLayerLines(
+  lines: Array<Line>,
+  layers: Array<Layer>,
+  layer: Layer,
+) {
+  return lines.filter((line) => getLineLayer(line, layers) === layer);
+}
+
+// new lines, the eraser and the select tool only go to these
+export function isEditable(layer?: Layer) {
+  return !!layer && layer.visible && !layer.locked;
+}
+
+/**
+ * Replace what's on `ctx` with the layer bitmaps, bottom to top with their
+ * opacity and blend mode.
+ */
+export function compositeLayers(
+  ctx: CanvasRenderingContext2D,
+  layers: Array<Layer>,
+  getCanvas: (layer: Layer) => HTMLCanvasElement | undefined,
+) {
+  clearCanvas(ctx.canvas);
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  layers.forEach((layer) => {
+    const canvas = getCanvas(layer);
+    if (!layer.visible || !canvas) return;
+    ctx.globalAlpha = layer.opacity;
+    ctx.globalCompositeOperation =
+      layer.blendMode === 'normal' ? 'source-over' : layer.blendMode;
+    ctx.drawImage(canvas, 0, 0);
+  });
+  ctx.restore();
+}
+
+/**
+ * Paint `lines` onto `ctx` with the transform it has, each layer on a
+ * canvas of its own so erasers only cut into their layer.
+ */
+export function renderLayers(
+  ctx: CanvasRenderingContext2D,
+  lines: Array<Line>,
+  layers: Array<Layer>,
+) {
+  const transform = ctx.getTransform();
+  const canvases = new Map<Layer, HTMLCanvasElement>();
+  layers.forEach((layer) => {
+    if (!layer.visible) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = ctx.canvas.width;
+    canvas.height = ctx.canvas.height;
+    const layerCtx = canvas.getContext('2d');
+    if (!layerCtx) return;
+    layerCtx.setTransform(transform);
+    renderLines(layerCtx, getLayerLines(lines, layers, layer));
+    canvases.set(layer, canvas);
+  });
+  compositeLayers(ctx, layers, (layer) => canvases.get(layer));
+}
+
+/**
+ * Move the lines of layer `id` onto the layer below it and drop the layer,
+ * null for the bottom layer. The lines keep their colors, the opacity and
+ * blend mode of the merged layer are gone.
+ */
+export function mergeLayerDown(
+  lines: Array<Line>,
+  layers: Array<Layer>,
+  id: string,
+): HistoryCommand | null {
+  const index = layers.findIndex((layer) => layer.id === id);
+  const layer = layers[index];
+  const below = layers[index - 1];
+  if (!layer || !below) return null;
+  const moved = lines
+    .map((line, i) => ({ index: i, line }))
+    .filter(({ line }) => getLineLayer(line, layers) === layer);
+  return {
+    type: 'merge',
+    removed: moved,
+    inserted: moved.map(({ index: i, line }) => ({
+      index: i,
+      line: { ...line, layer: below.id },
+    })),
+    removedLayers: [{ index, layer }],
+    insertedLayers: [],
+  };
+}
@@ -0,0 +1,53 @@
+import type { Point } from '.';
+
+/**
+ * Brush attached to the pointer by a string of length `radius`:
+ * the brush only moves once the pointer pulls the string tight,
+ * which smooths out the jitter of mice and trackpads.
+ */
+export type LazyBrush = {
+  radius: number;
+  pointer: Point;
+  brush: Point;
+};
+
+export function createLazyBrush(radius = 0): LazyBrush {
+  return {
+    radius,
+    pointer: { x: 0, y: 0 },
+    brush: { x: 0, y: 0 },
+  };
+}
+
+/**
+ * Move the pointer and drag the brush along.
+ * Returns true when the brush moved.
+ */
+export function updateLazyBrush(
+  lazy: LazyBrush,
+  pointer: Point,
+  { both = false }: { both?: boolean } = {},
+) {
+  lazy.pointer = { x: pointer.x, y: pointer.y };
+
+  if (both || lazy.radius <= 0) {
+    const moved = lazy.brush.x !== pointer.x || lazy.brush.y !== pointer.y;
+    lazy.brush = { x: pointer.x, y: pointer.y };
+    return moved;
+  }
+
+  const dx = lazy.pointer.x - lazy.brush.x;
+  const dy = lazy.pointer.y - lazy.brush.y;
+  const distance = Math.hypot(dx, dy);
+  if (distance <= lazy.radius) {
+    return false;
+  }
+
+  // pull the brush towards the pointer until the string is tight again
+  const ratio = (distance - lazy.radius) / distance;
+  lazy.brush = {
+    x: lazy.brush.x + dx * ratio,
+    y: lazy.brush.y + dy * ratio,
+  };
+  return true;
+}
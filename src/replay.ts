@@ -0,0 +1,148 @@
+import type { Line, Point } from '.';
+
+/**
+ * One frame of a replay: `points` of `line` are on screen, `done` when the
+ * line is complete and can be saved.
+ */
+export type ReplayStep = {
+  line: Line;
+  points: Array<Point>;
+  done: boolean;
+};
+
+export type ReplayOptions = {
+  // ms per step at speed 1
+  stepDuration: number;
+  speed?: number;
+  onStep: (step: ReplayStep) => void;
+  // seeking backwards starts over, the drawing goes back to where the
+  // replay began
+  onRestart: () => void;
+  onProgress?: (progress: number) => void;
+  onEnd?: () => void;
+};
+
+export type ReplayController = {
+  play: () => void;
+  pause: () => void;
+  // jump to a progress between 0 and 1
+  seek: (progress: number) => void;
+  setSpeed: (speed: number) => void;
+  // stop for good, without onEnd
+  cancel: () => void;
+  isPlaying: () => boolean;
+  isDone: () => boolean;
+};
+
+// shapes pop up at once, strokes grow point by point
+function countSteps(line: Line) {
+  return line.tool === 'shape' ? 1 : Math.max(1, line.points.length - 1);
+}
+
+export function* replaySteps(lines: Array<Line>): Generator<ReplayStep> {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line) continue;
+    const steps = countSteps(line);
+    for (let step = 1; step <= steps; step++) {
+      yield {
+        line,
+        points: step === steps ? line.points : line.points.slice(0, step + 1),
+        done: step === steps,
+      };
+    }
+  }
+}
+
+/**
+ * Paint `lines` step by step on animation frames.
+ */
+export function createReplay(
+  lines: Array<Line>,
+  options: ReplayOptions,
+): ReplayController {
+  const total = lines.reduce((sum, line) => sum + countSteps(line), 0);
+  let steps = replaySteps(lines);
+  let painted = 0;
+  let speed = options.speed ?? 1;
+  let playing = false;
+  let ended = false;
+  let frame: number | null = null;
+  let lastTime: number | null = null;
+  // time the next step has been waiting for
+  let elapsed = 0;
+
+  function stop() {
+    playing = false;
+    lastTime = null;
+    if (frame !== null) {
+      window.cancelAnimationFrame(frame);
+      frame = null;
+    }
+  }
+
+  function advance(count: number, { jump = false } = {}) {
+    for (let i = 0; i < count; i++) {
+      const next = steps.next();
+      if (next.done) break;
+      painted++;
+      // when jumping, partial lines on the way don't need painting
+      if (!jump || next.value.done || i === count - 1) {
+        options.onStep(next.value);
+      }
+    }
+    options.onProgress?.(total ? painted / total : 1);
+    if (painted >= total) {
+      stop();
+      ended = true;
+      options.onEnd?.();
+    }
+  }
+
+  function tick(time: number) {
+    frame = null;
+    elapsed += lastTime === null ? 0 : (time - lastTime) * speed;
+    lastTime = time;
+    const count =
+      options.stepDuration > 0
+        ? Math.floor(elapsed / options.stepDuration)
+        : total - painted;
+    elapsed -= count * options.stepDuration;
+    if (count || painted >= total) {
+      advance(count);
+    }
+    if (playing) {
+      frame = window.requestAnimationFrame(tick);
+    }
+  }
+
+  return {
+    play() {
+      if (playing || ended) return;
+      playing = true;
+      frame = window.requestAnimationFrame(tick);
+    },
+    pause: stop,
+    seek(progress) {
+      const target = Math.round(Math.min(1, Math.max(0, progress)) * total);
+      if (target === painted) return;
+      if (target < painted) {
+        options.onRestart();
+        steps = replaySteps(lines);
+        painted = 0;
+      }
+      ended = false;
+      elapsed = 0;
+      advance(target - painted, { jump: true });
+    },
+    setSpeed(next) {
+      speed = Math.max(0, next);
+    },
+    cancel() {
+      stop();
+      ended = true;
+    },
+    isPlaying: () => playing,
+    isDone: () => ended,
+  };
+}
@@ -0,0 +1,60 @@
+import type { Line } from '.';
+import type { HistoryCommand } from './history';
+import { getLinesBounds } from './selection';
+import type { Bounds } from './selection';
+
+/**
+ * What happens to the lines when the canvas changes size:
+ * `scale-content` stretches them along, `preserve-content` keeps them
+ * where they are and `crop` drops the ones left outside the canvas.
+ */
+export type ResizePolicy = 'scale-content' | 'preserve-content' | 'crop';
+
+export type Size = {
+  width: number;
+  height: number;
+};
+
+export function scaleLine(line: Line, scaleX: number, scaleY: number): Line {
+  const scaleAvg = (scaleX + scaleY) / 2;
+  return {
+    ...line,
+    points: line.points.map((p) => ({
+      ...p,
+      x: p.x * scaleX,
+      y: p.y * scaleY,
+      ...(p.width !== undefined ? { width: p.width * scaleAvg } : {}),
+    })),
+    brushRadius: line.brushRadius * scaleAvg,
+  };
+}
+
+// lines drawn on a canvas of size `from` fitted to a canvas of size `to`
+export function scaleLines(lines: Array<Line>, from: Size, to: Size) {
+  const scaleX = to.width / from.width;
+  const scaleY = to.height / from.height;
+  return lines.map((line) => scaleLine(line, scaleX, scaleY));
+}
+
+function overlaps(a: Bounds, b: Bounds) {
+  return (
+    a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY
+  );
+}
+
+/**
+ * Removal of the lines lying completely outside `bounds`,
+ * null when every line shows.
+ */
+export function cropLines(
+  lines: Array<Line>,
+  bounds: Bounds,
+): HistoryCommand | null {
+  const removed = lines
+    .map((line, index) => ({ index, line }))
+    .filter(({ line }) => {
+      const lineBounds = getLinesBounds([line]);
+      return !lineBounds || !overlaps(lineBounds, bounds);
+    });
+  return removed.length ? { type: 'resize', removed, inserted: [] } : null;
+}
@@ -0,0 +1,234 @@
+import type { CanvasData, Line } from '.';
+import { decodePoints, encodePoints } from './compact';
+import { createLayer } from './layers';
+
+/**
+ * Current version of the `CanvasData` document format.
+ * Bump it whenever the shape of the document changes and add a migration
+ * from the previous version to `migrations` below.
+ */
+export const SAVE_DATA_VERSION = 5;
+
+export const DEFAULT_BACKGROUND = '#FFF';
+
+export type SaveDataOptions = {
+  // points packed into base64 strings, a fraction of the size
+  compact?: boolean;
+  // steps per unit compact points are rounded to, 10 by default
+  precision?: number;
+};
+
+const DEFAULT_PRECISION = 10;
+
+/**
+ * Payload written by versions before the document was versioned.
+ * The eraser was marked by `type: 'erase'` on the first point of a line
+ * (or `brushColor: 'erase'` once the line was saved).
+ */
+type LegacyCanvasData = {
+  version?: 0;
+  lines: Array<{
+    brushColor: string;
+    brushRadius: number;
+    points: Array<{ x: number; y: number; type?: string }>;
+  }>;
+  width: number;
+  height: number;
+};
+
+type VersionedData = { version: number } & Record<string, unknown>;
+
+// migrations[n] upgrades a version n document to version n + 1
+const migrations: Record<number, (data: VersionedData) => VersionedData> = {
+  0: (data) => {
+    assertLegacyCanvasData(data);
+    const { lines, width, height } = data;
+    return {
+      version: 1,
+      width,
+      height,
+      background: DEFAULT_BACKGROUND,
+      lines: lines.map((line) => {
+        const isEraser =
+          line.brushColor === 'erase' || line.points[0]?.type === 'erase';
+        return {
+          tool: isEraser ? 'eraser' : 'brush',
+          brushColor: line.brushColor,
+          brushRadius: line.brushRadius,
+          points: line.points.map(({ x, y }) => ({ x, y })),
+        };
+      }),
+    };
+  },
+  // v1 -> v2: shape lines, older readers would drop their `shape`
+  1: (data) => ({ ...data, version: 2 }),
+  // v2 -> v3: rotated shapes, older readers would ignore `rotation`
+  2: (data) => ({ ...data, version: 3 }),
+  // v3 -> v4: layers, older readers would flatten them
+  3: (data) => ({ ...data, version: 4 }),
+  // v4 -> v5: compact documents, older readers can't unpack their points
+  4: (data) => ({ ...data, version: 5 }),
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+const TOOLS: Array<unknown> = ['brush', 'eraser', 'shape'];
+
+function isPoint(value: unknown) {
+  return (
+    isObject(value) &&
+    typeof value.x === 'number' &&
+    typeof value.y === 'number'
+  );
+}
+
+// legacy lines have no tool yet
+function assertLines(
+  lines: unknown,
+  { legacy = false }: { legacy?: boolean } = {},
+): asserts lines is Array<{
+  brushColor: string;
+  brushRadius: number;
+  points: Array<{ x: number; y: number }>;
+}> {
+  if (!Array.isArray(lines)) {
+    throw new Error('Invalid save data: lines must be an array');
+  }
+  lines.forEach((line: unknown) => {
+    if (!isObject(line) || !Array.isArray(line.points)) {
+      throw new Error('Invalid save data: line points must be an array');
+    }
+    if (!line.points.every(isPoint)) {
+      throw new Error('Invalid save data: points must have numeric x and y');
+    }
+    if (!legacy && !TOOLS.includes(line.tool)) {
+      throw new Error(`Invalid save data: unknown tool ${String(line.tool)}`);
+    }
+    if (typeof line.brushColor !== 'string') {
+      throw new Error('Invalid save data: brushColor must be a string');
+    }
+    if (typeof line.brushRadius !== 'number') {
+      throw new Error('Invalid save data: brushRadius must be a number');
+    }
+  });
+}
+
+function assertLegacyCanvasData(
+  data: VersionedData,
+): asserts data is VersionedData & LegacyCanvasData {
+  assertLines(data.lines, { legacy: true });
+}
+
+function assertCanvasData(data: VersionedData): asserts data is CanvasData {
+  if (typeof data.width !== 'number' || typeof data.height !== 'number') {
+    throw new Error('Invalid save data: width and height must be numbers');
+  }
+  if (typeof data.background !== 'string') {
+    throw new Error('Invalid save data: background must be a string');
+  }
+  assertLines(data.lines);
+  if (data.layers !== undefined && !Array.isArray(data.layers)) {
+    throw new Error('Invalid save data: layers must be an array');
+  }
+  data.layers?.forEach((layer: unknown) => {
+    if (!isObject(layer) || typeof layer.id !== 'string') {
+      throw new Error('Invalid save data: layers must have a string id');
+    }
+  });
+}
+
+// the points of a compact document back to arrays
+function expandSaveData(data: Record<string, unknown>) {
+  if (data.encoding !== 'compact') return data;
+  const { precision, lines } = data;
+  if (typeof precision !== 'number' || precision <= 0) {
+    throw new Error('Invalid save data: precision must be a positive number');
+  }
+  const expanded: Record<string, unknown> = {
+    ...data,
+    lines: Array.isArray(lines)
+      ? lines.map((line: unknown) =>
+          isObject(line) && typeof line.points === 'string'
+            ? { ...line, points: decodePoints(line.points, precision) }
+            : line,
+        )
+      : lines,
+  };
+  delete expanded.encoding;
+  delete expanded.precision;
+  return expanded;
+}
+
+/**
+ * Upgrade any saved document (current, older or unversioned) to the current
+ * `CanvasData` format.
+ */
+export function migrateSaveData(input: unknown): CanvasData {
+  if (!isObject(input)) {
+    throw new Error('Invalid save data: expected an object');
+  }
+
+  const expanded = expandSaveData(input);
+  let data: VersionedData = {
+    ...expanded,
+    version: typeof expanded.version === 'number' ? expanded.version : 0,
+  };
+
+  if (data.version > SAVE_DATA_VERSION) {
+    throw new Error(
+      `Unsupported save data version ${data.version}, the latest supported version is ${SAVE_DATA_VERSION}`,
+    );
+  }
+
+  while (data.version < SAVE_DATA_VERSION) {
+    const migrate = migrations[data.version];
+    if (!migrate) {
+      throw new Error(
+        `Missing migration for save data version ${data.version}`,
+      );
+    }
+    data = migrate(data);
+  }
+
+  assertCanvasData(data);
+  // fields a layer was saved without get their defaults
+  return data.layers
+    ? {
+        ...data,
+        layers: data.layers.map((layer) => createLayer(layer, layer.id)),
+      }
+    : data;
+}
+
+export function parseSaveData(data: string | CanvasData): CanvasData {
+  return migrateSaveData(typeof data === 'string' ? JSON.parse(data) : data);
+}
+
+export function serializeSaveData(
+  lines: Array<Line>,
+  { width, height, background, layers }: Omit<CanvasData, 'version' | 'lines'>,
+  { compact = false, precision = DEFAULT_PRECISION }: SaveDataOptions = {},
+): string {
+  const data: CanvasData = {
+    version: SAVE_DATA_VERSION,
+    width,
+    height,
+    background,
+    lines,
+    ...(layers ? { layers } : {}),
+  };
+  if (!compact) {
+    return JSON.stringify(data);
+  }
+  return JSON.stringify({
+    ...data,
+    encoding: 'compact',
+    precision,
+    lines: lines.map((line) => ({
+      ...line,
+      points: encodePoints(line.points, precision),
+    })),
+  });
+}
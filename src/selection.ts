@@ -0,0 +1,336 @@
+import type { Line, Point } from '.';
+import { getLineOutline, isClosedShape } from './shapes';
+import { isInsidePolygon } from './utils';
+
+export type SelectMode = 'lasso' | 'rectangle';
+
+export type Bounds = {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+};
+
+export type SelectionHandle = 'nw' | 'ne' | 'se' | 'sw' | 'rotate';
+
+export type SelectionTransform =
+  | { type: 'move'; dx: number; dy: number }
+  | { type: 'scale'; sx: number; sy: number; anchor: Point }
+  | { type: 'rotate'; angle: number; center: Point };
+
+// what a pointer drag on the select tool is doing
+export type SelectionDrag =
+  | { type: 'select'; path: Array<Point> }
+  | {
+      type: 'transform';
+      handle: SelectionHandle | null;
+      origin: Point;
+      bounds: Bounds;
+      transform: SelectionTransform | null;
+    };
+
+// in screen pixels, divided by the zoom for world units
+const HANDLE_SIZE = 8;
+const ROTATE_HANDLE_OFFSET = 24;
+
+export function getLinesBounds(lines: Array<Line>): Bounds | null {
+  let bounds: Bounds | null = null;
+  lines.forEach((line) => {
+    const pad = line.brushRadius;
+    getLineOutline(line).forEach(({ x, y }) => {
+      bounds = {
+        minX: Math.min(bounds?.minX ?? Infinity, x - pad),
+        minY: Math.min(bounds?.minY ?? Infinity, y - pad),
+        maxX: Math.max(bounds?.maxX ?? -Infinity, x + pad),
+        maxY: Math.max(bounds?.maxY ?? -Infinity, y + pad),
+      };
+    });
+  });
+  return bounds;
+}
+
+export type ExportArea = 'canvas' | 'content';
+
+/**
+ * The part of the world an export shows: the canvas rectangle, or for
+ * `content` that grown to whole units around every line.
+ */
+export function getExportBounds(
+  lines: Array<Line>,
+  width: number,
+  height: number,
+  area: ExportArea = 'canvas',
+): Bounds {
+  const bounds = { minX: 0, minY: 0, maxX: width, maxY: height };
+  const content = area === 'content' ? getLinesBounds(lines) : null;
+  if (!content) return bounds;
+  return {
+    minX: Math.min(bounds.minX, Math.floor(content.minX)),
+    minY: Math.min(bounds.minY, Math.floor(content.minY)),
+    maxX: Math.max(bounds.maxX, Math.ceil(content.maxX)),
+    maxY: Math.max(bounds.maxY, Math.ceil(content.maxY)),
+  };
+}
+
+export function getHandlePositions(
+  bounds: Bounds,
+  zoom = 1,
+): Record<SelectionHandle, Point> {
+  return {
+    nw: { x: bounds.minX, y: bounds.minY },
+    ne: { x: bounds.maxX, y: bounds.minY },
+    se: { x: bounds.maxX, y: bounds.maxY },
+    sw: { x: bounds.minX, y: bounds.maxY },
+    rotate: {
+      x: (bounds.minX + bounds.maxX) / 2,
+      y: bounds.minY - ROTATE_HANDLE_OFFSET / zoom,
+    },
+  };
+}
+
+export function hitHandle(
+  bounds: Bounds,
+  p: Point,
+  zoom = 1,
+): SelectionHandle | null {
+  const handles = getHandlePositions(bounds, zoom);
+  const size = HANDLE_SIZE / zoom;
+  const hit = (Object.keys(handles) as Array<SelectionHandle>).find((key) => {
+    const h = handles[key];
+    return Math.abs(h.x - p.x) <= size && Math.abs(h.y - p.y) <= size;
+  });
+  return hit ?? null;
+}
+
+export function isInsideBounds(bounds: Bounds, p: Point) {
+  return (
+    p.x >= bounds.minX &&
+    p.x <= bounds.maxX &&
+    p.y >= bounds.minY &&
+    p.y <= bounds.maxY
+  );
+}
+
+/**
+ * Lines lying completely inside the lasso path, or inside the rectangle
+ * spanned by its first and last point. Eraser lines are never picked.
+ */
+export function selectLines(
+  lines: Array<Line>,
+  path: Array<Point>,
+  mode: SelectMode,
+) {
+  const first = path[0];
+  const last = path[path.length - 1];
+  if (!first || !last) return [];
+
+  const contains =
+    mode === 'rectangle'
+      ? (p: Point) =>
+          isInsideBounds(
+            {
+              minX: Math.min(first.x, last.x),
+              minY: Math.min(first.y, last.y),
+              maxX: Math.max(first.x, last.x),
+              maxY: Math.max(first.y, last.y),
+            },
+            p,
+          )
+      : (p: Point) => isInsidePolygon(p, path);
+
+  return lines.filter(
+    (line) => line.tool !== 'eraser' && getLineOutline(line).every(contains),
+  );
+}
+
+/**
+ * Transform for dragging `handle` (or the whole selection when null)
+ * from `origin` to `current`.
+ */
+export function getSelectionTransform(
+  bounds: Bounds,
+  handle: SelectionHandle | null,
+  origin: Point,
+  current: Point,
+  { constrain = false }: { constrain?: boolean } = {},
+): SelectionTransform {
+  const center = {
+    x: (bounds.minX + bounds.maxX) / 2,
+    y: (bounds.minY + bounds.maxY) / 2,
+  };
+
+  if (!handle) {
+    return { type: 'move', dx: current.x - origin.x, dy: current.y - origin.y };
+  }
+
+  if (handle === 'rotate') {
+    let angle =
+      Math.atan2(current.y - center.y, current.x - center.x) -
+      Math.atan2(origin.y - center.y, origin.x - center.x);
+    if (constrain) {
+      angle = Math.round(angle / (Math.PI / 12)) * (Math.PI / 12);
+    }
+    return { type: 'rotate', angle, center };
+  }
+
+  // scale around the opposite corner
+  const handles = getHandlePositions(bounds);
+  const opposite = ({ nw: 'se', ne: 'sw', se: 'nw', sw: 'ne' } as const)[
+    handle
+  ];
+  const anchor = handles[opposite];
+  const width = bounds.maxX - bounds.minX || 1;
+  const height = bounds.maxY - bounds.minY || 1;
+  const dirX = handle === 'ne' || handle === 'se' ? 1 : -1;
+  const dirY = handle === 'sw' || handle === 'se' ? 1 : -1;
+  let sx = 1 + (dirX * (current.x - origin.x)) / width;
+  let sy = 1 + (dirY * (current.y - origin.y)) / height;
+  if (constrain) {
+    sx = sy = Math.max(sx, sy);
+  }
+  return { type: 'scale', sx, sy, anchor };
+}
+
+export function transformPoint<P extends Point>(
+  p: P,
+  transform: SelectionTransform,
+): P {
+  switch (transform.type) {
+    case 'move':
+      return { ...p, x: p.x + transform.dx, y: p.y + transform.dy };
+    case 'scale': {
+      const { sx, sy, anchor } = transform;
+      return {
+        ...p,
+        x: anchor.x + (p.x - anchor.x) * sx,
+        y: anchor.y + (p.y - anchor.y) * sy,
+      };
+    }
+    case 'rotate': {
+      const { angle, center } = transform;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      return {
+        ...p,
+        x: center.x + (p.x - center.x) * cos - (p.y - center.y) * sin,
+        y: center.y + (p.x - center.x) * sin + (p.y - center.y) * cos,
+      };
+    }
+  }
+}
+
+export function transformLine(line: Line, transform: SelectionTransform): Line {
+  const scale =
+    transform.type === 'scale'
+      ? Math.sqrt(Math.abs(transform.sx * transform.sy))
+      : 1;
+
+  if (line.tool === 'shape' && isClosedShape(line)) {
+    // closed shapes keep their box and rotate around its center
+    const [start, end] = line.points;
+    if (!start || !end) return line;
+    const center = transformPoint(
+      { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+      transform,
+    );
+    let hx = Math.abs(end.x - start.x) / 2;
+    let hy = Math.abs(end.y - start.y) / 2;
+    let rotation = line.rotation ?? 0;
+    if (transform.type === 'rotate') {
+      rotation += transform.angle;
+    } else if (transform.type === 'scale') {
+      if (rotation) {
+        hx *= scale;
+        hy *= scale;
+      } else {
+        hx *= Math.abs(transform.sx);
+        hy *= Math.abs(transform.sy);
+      }
+    }
+    return {
+      ...line,
+      brushRadius: line.brushRadius * scale,
+      points: [
+        { x: center.x - hx, y: center.y - hy },
+        { x: center.x + hx, y: center.y + hy },
+      ],
+      ...(rotation ? { rotation } : {}),
+    };
+  }
+
+  return {
+    ...line,
+    brushRadius: line.brushRadius * scale,
+    points: line.points.map((p) => {
+      const next = transformPoint(p, transform);
+      return p.width !== undefined ? { ...next, width: p.width * scale } : next;
+    }),
+  };
+}
+
+/**
+ * Paint the selection box with its handles, or the lasso/rectangle being
+ * drawn, onto the interface canvas. `zoom` keeps them the same size on
+ * screen.
+ */
+export function drawSelection(
+  ctx: CanvasRenderingContext2D,
+  {
+    bounds,
+    path,
+    mode,
+    zoom = 1,
+  }: {
+    bounds: Bounds | null;
+    path?: Array<Point>;
+    mode: SelectMode;
+    zoom?: number;
+  },
+) {
+  const size = HANDLE_SIZE / zoom;
+  ctx.save();
+  ctx.lineWidth = 1 / zoom;
+  ctx.strokeStyle = '#1a73e8';
+  ctx.fillStyle = '#fff';
+  ctx.setLineDash([4 / zoom, 4 / zoom]);
+
+  if (path && path.length > 1) {
+    const first = path[0];
+    const last = path[path.length - 1];
+    ctx.beginPath();
+    if (mode === 'rectangle' && first && last) {
+      ctx.rect(first.x, first.y, last.x - first.x, last.y - first.y);
+    } else {
+      path.forEach((p, i) => (i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y)));
+      ctx.closePath();
+    }
+    ctx.stroke();
+  }
+
+  if (bounds) {
+    ctx.strokeRect(
+      bounds.minX,
+      bounds.minY,
+      bounds.maxX - bounds.minX,
+      bounds.maxY - bounds.minY,
+    );
+    ctx.setLineDash([]);
+    const handles = getHandlePositions(bounds, zoom);
+    ctx.beginPath();
+    ctx.moveTo(handles.rotate.x, bounds.minY);
+    ctx.lineTo(handles.rotate.x, handles.rotate.y);
+    ctx.stroke();
+    (Object.keys(handles) as Array<SelectionHandle>).forEach((key) => {
+      const { x, y } = handles[key];
+      ctx.beginPath();
+      if (key === 'rotate') {
+        ctx.arc(x, y, size / 2 + 1 / zoom, 0, Math.PI * 2);
+      } else {
+        ctx.rect(x - size / 2, y - size / 2, size, size);
+      }
+      ctx.fill();
+      ctx.stroke();
+    });
+  }
+  ctx.restore();
+}
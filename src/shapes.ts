@@ -0,0 +1,266 @@
+import type { Line, Point, ShapeKind, ShapeLine } from '.';
+
+export type ShapeModifiers = {
+  // square, circle or 45° steps
+  constrain?: boolean;
+  // the first point is the center of the shape
+  fromCenter?: boolean;
+};
+
+/**
+ * Path commands shared by the canvas renderer and the svg export.
+ */
+export type PathCommand =
+  | ['M' | 'L', number, number]
+  | ['C', number, number, number, number, number, number]
+  | ['Z'];
+
+// control point distance to draw a quarter ellipse with a cubic curve
+const KAPPA = 0.5522847498;
+
+export const DEFAULT_POLYGON_SIDES = 5;
+
+/**
+ * Turn the drag from `origin` to `current` into the points stored on the
+ * shape line: both ends for lines and arrows, opposite corners of the
+ * bounding box for the other shapes.
+ */
+export function getShapePoints(
+  shape: ShapeKind,
+  origin: Point,
+  current: Point,
+  { constrain = false, fromCenter = false }: ShapeModifiers = {},
+): Array<Point> {
+  let dx = current.x - origin.x;
+  let dy = current.y - origin.y;
+
+  if (constrain) {
+    if (shape === 'line' || shape === 'arrow') {
+      const angle =
+        Math.round(Math.atan2(dy, dx) / (Math.PI / 4)) * (Math.PI / 4);
+      const length = Math.hypot(dx, dy);
+      dx = Math.cos(angle) * length;
+      dy = Math.sin(angle) * length;
+    } else {
+      const size = Math.max(Math.abs(dx), Math.abs(dy));
+      dx = Math.sign(dx || 1) * size;
+      dy = Math.sign(dy || 1) * size;
+    }
+  }
+
+  const end = { x: origin.x + dx, y: origin.y + dy };
+  const start = fromCenter ? { x: origin.x - dx, y: origin.y - dy } : origin;
+  return [{ x: start.x, y: start.y }, end];
+}
+
+function ellipseCommands(
+  cx: number,
+  cy: number,
+  rx: number,
+  ry: number,
+): Array<PathCommand> {
+  const ox = rx * KAPPA;
+  const oy = ry * KAPPA;
+  return [
+    ['M', cx - rx, cy],
+    ['C', cx - rx, cy - oy, cx - ox, cy - ry, cx, cy - ry],
+    ['C', cx + ox, cy - ry, cx + rx, cy - oy, cx + rx, cy],
+    ['C', cx + rx, cy + oy, cx + ox, cy + ry, cx, cy + ry],
+    ['C', cx - ox, cy + ry, cx - rx, cy + oy, cx - rx, cy],
+    ['Z'],
+  ];
+}
+
+function rotateCommands(
+  commands: Array<PathCommand>,
+  center: Point,
+  angle: number,
+): Array<PathCommand> {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const rotate = (x: number, y: number) => [
+    center.x + (x - center.x) * cos - (y - center.y) * sin,
+    center.y + (x - center.x) * sin + (y - center.y) * cos,
+  ];
+  return commands.map((command) => {
+    if (command[0] === 'Z') return command;
+    const [name, ...values] = command;
+    const rotated: Array<number> = [];
+    for (let i = 0; i < values.length; i += 2) {
+      rotated.push(...rotate(values[i] ?? 0, values[i + 1] ?? 0));
+    }
+    return [name, ...rotated] as PathCommand;
+  });
+}
+
+export function getShapePath(line: ShapeLine): Array<PathCommand> {
+  const commands = getUnrotatedShapePath(line);
+  const [start, end] = line.points;
+  if (!line.rotation || !start || !end) return commands;
+  return rotateCommands(
+    commands,
+    { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+    line.rotation,
+  );
+}
+
+function getUnrotatedShapePath(line: ShapeLine): Array<PathCommand> {
+  const [start, end] = line.points;
+  if (!start || !end) return [];
+
+  const minX = Math.min(start.x, end.x);
+  const minY = Math.min(start.y, end.y);
+  const maxX = Math.max(start.x, end.x);
+  const maxY = Math.max(start.y, end.y);
+
+  switch (line.shape) {
+    case 'line':
+      return [
+        ['M', start.x, start.y],
+        ['L', end.x, end.y],
+      ];
+    case 'arrow': {
+      const angle = Math.atan2(end.y - start.y, end.x - start.x);
+      const head = Math.max(10, line.brushRadius * 4);
+      const wing = Math.PI / 7;
+      return [
+        ['M', start.x, start.y],
+        ['L', end.x, end.y],
+        [
+          'M',
+          end.x - head * Math.cos(angle - wing),
+          end.y - head * Math.sin(angle - wing),
+        ],
+        ['L', end.x, end.y],
+        [
+          'L',
+          end.x - head * Math.cos(angle + wing),
+          end.y - head * Math.sin(angle + wing),
+        ],
+      ];
+    }
+    case 'rectangle':
+      return [
+        ['M', minX, minY],
+        ['L', maxX, minY],
+        ['L', maxX, maxY],
+        ['L', minX, maxY],
+        ['Z'],
+      ];
+    case 'ellipse':
+      return ellipseCommands(
+        (minX + maxX) / 2,
+        (minY + maxY) / 2,
+        (maxX - minX) / 2,
+        (maxY - minY) / 2,
+      );
+    case 'polygon': {
+      // regular polygon inscribed in the bounding box, pointing up
+      const sides = Math.max(3, line.sides ?? DEFAULT_POLYGON_SIDES);
+      const cx = (minX + maxX) / 2;
+      const cy = (minY + maxY) / 2;
+      const commands: Array<PathCommand> = [];
+      for (let i = 0; i < sides; i++) {
+        const angle = -Math.PI / 2 + (i * Math.PI * 2) / sides;
+        commands.push([
+          i === 0 ? 'M' : 'L',
+          cx + ((maxX - minX) / 2) * Math.cos(angle),
+          cy + ((maxY - minY) / 2) * Math.sin(angle),
+        ]);
+      }
+      commands.push(['Z']);
+      return commands;
+    }
+  }
+}
+
+/**
+ * Polyline following the line on screen, curves of shapes get flattened.
+ */
+export function getLineOutline(line: Line): Array<Point> {
+  if (line.tool !== 'shape') return line.points;
+  const outline: Array<Point> = [];
+  let start: Point | undefined;
+  getShapePath(line).forEach((command) => {
+    switch (command[0]) {
+      case 'M':
+      case 'L': {
+        const p = { x: command[1], y: command[2] };
+        if (command[0] === 'M') start = p;
+        outline.push(p);
+        break;
+      }
+      case 'C': {
+        const p0 = outline[outline.length - 1] ?? { x: 0, y: 0 };
+        const [, x1, y1, x2, y2, x, y] = command;
+        for (let t = 0.125; t <= 1; t += 0.125) {
+          const mt = 1 - t;
+          outline.push({
+            x:
+              mt ** 3 * p0.x +
+              3 * mt ** 2 * t * x1 +
+              3 * mt * t ** 2 * x2 +
+              t ** 3 * x,
+            y:
+              mt ** 3 * p0.y +
+              3 * mt ** 2 * t * y1 +
+              3 * mt * t ** 2 * y2 +
+              t ** 3 * y,
+          });
+        }
+        break;
+      }
+      case 'Z':
+        if (start) outline.push(start);
+        break;
+    }
+  });
+  return outline;
+}
+
+export function traceShape(ctx: CanvasPath, line: ShapeLine) {
+  getShapePath(line).forEach((command) => {
+    switch (command[0]) {
+      case 'M':
+        ctx.moveTo(command[1], command[2]);
+        break;
+      case 'L':
+        ctx.lineTo(command[1], command[2]);
+        break;
+      case 'C':
+        ctx.bezierCurveTo(
+          command[1],
+          command[2],
+          command[3],
+          command[4],
+          command[5],
+          command[6],
+        );
+        break;
+      case 'Z':
+        ctx.closePath();
+        break;
+    }
+  });
+}
+
+export function isClosedShape(line: ShapeLine) {
+  return line.shape !== 'line' && line.shape !== 'arrow';
+}
+
+/**
+ * Paint a shape line with the current composite mode.
+ */
+export function drawShape(ctx: CanvasRenderingContext2D, line: ShapeLine) {
+  ctx.lineJoin = 'round';
+  ctx.lineCap = 'round';
+  ctx.lineWidth = line.brushRadius * 2;
+  ctx.strokeStyle = line.brushColor;
+  ctx.fillStyle = line.brushColor;
+  ctx.beginPath();
+  traceShape(ctx, line);
+  if (line.fill && isClosedShape(line)) {
+    ctx.fill();
+  }
+  ctx.stroke();
+}
@@ -0,0 +1,69 @@
+import type { Point } from '.';
+import { pointSegmentDistance } from './eraser';
+
+// a pressure change of 0.1 weighs as much as 1 unit off the line
+const PRESSURE_WEIGHT = 10;
+
+/**
+ * How much the stroke edge or the pressure changed from `a` to `p`.
+ * Strokes keep one width per segment, so changes have to stay as points.
+ */
+function getStyleChange(p: Point, a: Point) {
+  return Math.max(
+    Math.abs((p.width ?? 0) - (a.width ?? 0)) / 2,
+    Math.abs((p.pressure ?? 0) - (a.pressure ?? 0)) * PRESSURE_WEIGHT,
+  );
+}
+
+/**
+ * Drop the points that stray less than `tolerance` from the line through
+ * their neighbours (Ramer–Douglas–Peucker), or change the width or the
+ * pressure by less than that. The first and last points always stay,
+ * 0 keeps every point.
+ */
+export function simplifyPoints<P extends Point>(
+  points: Array<P>,
+  tolerance: number,
+): Array<P> {
+  if (tolerance <= 0 || points.length < 3) return points;
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+  // ranges still to look at, a stack instead of recursion so long strokes
+  // can't overflow it
+  const ranges: Array<[number, number]> = [[0, points.length - 1]];
+  while (ranges.length) {
+    const [from, to] = ranges.pop() ?? [0, 0];
+    const a = points[from];
+    const b = points[to];
+    if (!a || !b) continue;
+    let farthest = -1;
+    let maxDistance = tolerance;
+    for (let i = from + 1; i < to; i++) {
+      const p = points[i];
+      if (!p) continue;
+      const distance = pointSegmentDistance(p, a, b);
+      if (distance > maxDistance) {
+        farthest = i;
+        maxDistance = distance;
+      }
+    }
+    if (farthest < 0) continue;
+    keep[farthest] = true;
+    ranges.push([from, farthest], [farthest, to]);
+  }
+
+  // widths and pressure that changed by more than the tolerance since the
+  // last point kept, with the point before so the change stays in place
+  let last = points[0];
+  points.forEach((p, i) => {
+    if (!last) return;
+    if (!keep[i] && getStyleChange(p, last) > tolerance) {
+      keep[i - 1] = true;
+      keep[i] = true;
+    }
+    if (keep[i]) last = p;
+  });
+  return points.filter((_, i) => keep[i]);
+}
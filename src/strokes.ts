@@ -0,0 +1,35 @@
+import type { LineProps, Point, StrokeInfo } from '.';
+import type { LazyBrush } from './lazyBrush';
+
+/**
+ * Which pointers draw: `any` lets every pointer draw, `pen-only` ignores
+ * touches and `touch-gestures` keeps touches for panning and zooming.
+ * Touches are palms while a stylus is down, whatever the mode.
+ */
+export type InputMode = 'any' | 'pen-only' | 'touch-gestures';
+
+// a stroke in progress, one per pointer drawing on the canvas
+export type ActiveStroke = {
+  pointerId: number;
+  pointerType: string;
+  // the style when the pointer went down
+  lineProps: LineProps;
+  points: Array<Point>;
+  // ahead of the pointer, painted but never saved
+  predicted: Array<Point>;
+  // set with the first point
+  info: StrokeInfo | null;
+  // where the shape being dragged started
+  shapeOrigin: Point | null;
+  lazy: LazyBrush;
+  // points already sent to collaborators
+  synced: number;
+};
+
+// what the temp canvas shows of a stroke in progress, local or remote
+export type StrokePreview = Pick<ActiveStroke, 'lineProps' | 'points'> &
+  Partial<Pick<ActiveStroke, 'predicted'>>;
+
+export function canDraw(pointerType: string, inputMode: InputMode) {
+  return pointerType !== 'touch' || inputMode === 'any';
+}
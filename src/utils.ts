@@ -1,13 +1,39 @@
-import { CSSProperties } from 'react';
-import { Point } from '.';
+import { ImageProps, Line, Point } from '.';
+import { drawShape } from './shapes';
+import { drawStroke } from './brushes';
 
+/**
+ * Size the backing store in device pixels, css keeps the canvas at
+ * `width` x `height`.
+ */
 export function setCanvasSize(
   canvas: HTMLCanvasElement,
   width: number,
   height: number,
+  pixelRatio = 1,
 ) {
-  canvas.width = width;
-  canvas.height = height;
+  canvas.width = Math.round(width * pixelRatio);
+  canvas.height = Math.round(height * pixelRatio);
+}
+
+// eraser strokes show in this color while drawn, they erase with its full
+// alpha whatever color the line stored
+export const ERASER_COLOR = '#dbb7bb';
+
+let idCount = 0;
+
+// unique within the page and unlikely to collide across pages
+export function createId() {
+  idCount += 1;
+  return [
+    Date.now().toString(36),
+    idCount.toString(36),
+    Math.random().toString(36).slice(2, 8),
+  ].join('-');
+}
+
+export function getDevicePixelRatio() {
+  return (typeof window !== 'undefined' && window.devicePixelRatio) || 1;
 }
 
 export function pointBtw(p1: Point, p2: Point, proportion: number) {
@@ -17,7 +43,216 @@ export function pointBtw(p1: Point, p2: Point, proportion: number) {
   };
 }
 
-export function getPointerPos(ev: PointerEvent, canvas: HTMLCanvasElement) {
+/**
+ * Trace a smoothed path through the points, each point is used as the control
+ * point of a quadratic curve ending halfway to the next one.
+ * Returns false when there are not enough points to trace.
+ */
+export function tracePoints(
+  ctx: Pick<CanvasPath, 'moveTo' | 'quadraticCurveTo' | 'lineTo'>,
+  points: Array<Point>,
+) {
+  let p1 = points[0];
+  let p2 = points[1];
+
+  if (!p1 || !p2) {
+    return false;
+  }
+
+  ctx.moveTo(p1.x, p1.y);
+
+  for (let i = 1; i < points.length; i++) {
+    // we pick the point between pi+1 & pi+2 as
+    // end point and p1 as our control point
+    if (!p1 || !p2) {
+      return false;
+    }
+    const midPoint = pointBtw(p1, p2, 1 / 2);
+    ctx.quadraticCurveTo(p1.x, p1.y, midPoint.x, midPoint.y);
+    p1 = points[i];
+    p2 = points[i + 1];
+  }
+
+  if (p1) {
+    // Draw last line as a straight line while
+    // we wait for the next point to be able to calculate
+    // the bezier control point
+    ctx.lineTo(p1.x, p1.y);
+  }
+  return true;
+}
+
+export type PathSegment = {
+  from: Point;
+  control: Point;
+  to: Point;
+  width?: number;
+};
+
+export function hasPointWidths(points: Array<Point>) {
+  return points.some((p) => p.width !== undefined);
+}
+
+/**
+ * The curve of `tracePoints` split into one quadratic segment per point,
+ * so each segment can be stroked with the width recorded on its control
+ * point. Straight pieces use their start as control point.
+ */
+export function getSegments(points: Array<Point>) {
+  const segments: Array<PathSegment> = [];
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last || points.length < 2) {
+    return segments;
+  }
+
+  let from: Point = first;
+  for (let i = 1; i < points.length; i++) {
+    const control = points[i - 1];
+    const next = points[i];
+    if (!control || !next) break;
+    const to = pointBtw(control, next, 1 / 2);
+    segments.push({ from, control, to, width: control.width });
+    from = to;
+  }
+  segments.push({ from, control: from, to: last, width: last.width });
+  return segments;
+}
+
+// points along the quadratic curve of a segment, about 4 units apart
+function sampleSegment({ from, control, to }: PathSegment) {
+  const length =
+    Math.hypot(control.x - from.x, control.y - from.y) +
+    Math.hypot(to.x - control.x, to.y - control.y);
+  const steps = Math.min(16, Math.max(1, Math.ceil(length / 4)));
+  const samples: Array<Point> = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const a = (1 - t) * (1 - t);
+    const b = 2 * (1 - t) * t;
+    const c = t * t;
+    samples.push({
+      x: a * from.x + b * control.x + c * to.x,
+      y: a * from.y + b * control.y + c * to.y,
+    });
+  }
+  return samples;
+}
+
+/**
+ * Trace the outline of a stroke whose points carry widths: a circle at
+ * every sample of its curve and a band between neighbouring ones. All of
+ * them wind the same way, filled at once their overlaps stay filled and
+ * a translucent color doesn't get darker where segments meet.
+ */
+export function traceWidthOutline(
+  path: Pick<CanvasPath, 'moveTo' | 'lineTo' | 'arc' | 'closePath'>,
+  points: Array<Point>,
+  lineWidth: number,
+) {
+  getSegments(points).forEach((segment) => {
+    const radius = (segment.width ?? lineWidth) / 2;
+    const samples = sampleSegment(segment);
+    samples.forEach((b, i) => {
+      path.moveTo(b.x + radius, b.y);
+      path.arc(b.x, b.y, radius, 0, Math.PI * 2);
+      const a = samples[i - 1];
+      const length = a && Math.hypot(b.x - a.x, b.y - a.y);
+      if (!a || !length) return;
+      const nx = (-(b.y - a.y) / length) * radius;
+      const ny = ((b.x - a.x) / length) * radius;
+      path.moveTo(a.x - nx, a.y - ny);
+      path.lineTo(b.x - nx, b.y - ny);
+      path.lineTo(b.x + nx, b.y + ny);
+      path.lineTo(a.x + nx, a.y + ny);
+      path.closePath();
+    });
+  });
+}
+
+/**
+ * Stroke the points with the current style, as one path when the stroke
+ * has a single width, as its filled outline when the points carry widths.
+ */
+export function strokePoints(
+  ctx: CanvasRenderingContext2D,
+  points: Array<Point>,
+  lineWidth: number,
+) {
+  if (!hasPointWidths(points)) {
+    ctx.lineWidth = lineWidth;
+    ctx.beginPath();
+    if (tracePoints(ctx, points)) {
+      ctx.stroke();
+    }
+    return;
+  }
+
+  ctx.beginPath();
+  traceWidthOutline(ctx, points, lineWidth);
+  ctx.save();
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.fill();
+  ctx.restore();
+}
+
+/**
+ * Paint finished lines straight onto a canvas, eraser lines cut out
+ * what was painted before them.
+ */
+export function renderLines(ctx: CanvasRenderingContext2D, lines: Array<Line>) {
+  ctx.save();
+  ctx.lineJoin = 'round';
+  ctx.lineCap = 'round';
+  lines.forEach((line) => {
+    ctx.globalCompositeOperation =
+      line.tool === 'eraser' ? 'destination-out' : 'source-over';
+    if (line.tool === 'shape') {
+      drawShape(ctx, line);
+      return;
+    }
+    if (line.tool === 'brush') {
+      drawStroke(ctx, line);
+      return;
+    }
+    // the eraser is all that's left
+    ctx.strokeStyle = ERASER_COLOR;
+    strokePoints(ctx, line.points, line.brushRadius * 2);
+  });
+  ctx.restore();
+}
+
+/**
+ * Whether `b` is `a` or a copy of it, e.g. after a round trip through
+ * JSON. Lines are told apart by id, lines without one only by reference.
+ */
+export function isSameLine(a: Line, b: Line) {
+  return (
+    a === b ||
+    (a.id !== undefined &&
+      a.id === b.id &&
+      JSON.stringify(a) === JSON.stringify(b))
+  );
+}
+
+// even-odd rule
+export function isInsidePolygon(p: Point, polygon: Array<Point>) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (!a || !b) continue;
+    if (
+      a.y > p.y !== b.y > p.y &&
+      p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function getPointerPos(ev: MouseEvent, canvas: HTMLCanvasElement) {
   const rect = canvas.getBoundingClientRect();
 
   // use cursor pos as default
@@ -34,52 +269,37 @@ export function getPointerPos(ev: PointerEvent, canvas: HTMLCanvasElement) {
 export function clearCanvas(canvas: HTMLCanvasElement) {
   const ctx = canvas.getContext('2d');
   if (!ctx) return;
+  // the whole canvas, whatever the view transform is
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
   ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.restore();
 }
 
-export function drawGrid(
-  canvas: HTMLCanvasElement,
-  color: NonNullable<CSSProperties['color']>,
-) {
-  const ctx = canvas.getContext('2d');
-  if (!ctx) return;
-
-  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
-
-  ctx.beginPath();
-  ctx.strokeStyle = color;
-  ctx.lineWidth = 0.5;
-
-  const gridSize = 25;
-
-  let countX = 0;
-  while (countX < ctx.canvas.width) {
-    countX += gridSize;
-    ctx.moveTo(countX, 0);
-    ctx.lineTo(countX, ctx.canvas.height);
-  }
-  ctx.stroke();
-
-  let countY = 0;
-  while (countY < ctx.canvas.height) {
-    countY += gridSize;
-    ctx.moveTo(0, countY);
-    ctx.lineTo(ctx.canvas.width, countY);
-  }
-  ctx.stroke();
-}
+// fingertip contact in css pixels that draws with the brush size
+const TOUCH_CONTACT_SIZE = 20;
+// canvases ignore line widths of 0 and less
+const MIN_LINE_RADIUS = 0.5;
 
+/**
+ * Radius of the brush under the pointer, pens scale the brush with their
+ * pressure and touches with the size of the contact, between half and
+ * twice the brush.
+ */
 export function getLineWidth(brushRadius: number, ev?: PointerEvent) {
   switch (ev?.pointerType) {
     case 'touch': {
-      if (ev.width < 10 && ev.height < 10) {
-        return (ev.width + ev.height) * 2 + 10;
-      } else {
-        return (ev.width + ev.height - 40) / 2;
-      }
+      const contact = (ev.width + ev.height) / 2;
+      // devices that don't know the contact size report 1 or 0
+      const scale =
+        contact > 1
+          ? Math.min(2, Math.max(0.5, contact / TOUCH_CONTACT_SIZE))
+          : 1;
+      return Math.max(MIN_LINE_RADIUS, brushRadius * scale);
     }
     case 'pen':
-      return ev.pressure * 8;
+      // pressure is 0.5 at a regular push, which keeps the brush size
+      return Math.max(MIN_LINE_RADIUS, brushRadius * ev.pressure * 2);
     default:
       return brushRadius;
   }
@@ -148,3 +368,102 @@ export default function drawImageProp({
   // fill image in dest. rectangle
   ctx.drawImage(img, cx, cy, cw, ch, x, y, w, h);
 }
+
+function clamp01(n: number) {
+  return Math.min(1, Math.max(0, n));
+}
+
+/**
+ * Position of the background image inside a w * h area, offsets work like
+ * css background-position percentages.
+ * For `tile` it's the position of the tile every other tile aligns to.
+ */
+export function getImagePlacement(
+  iw: number,
+  ih: number,
+  w: number,
+  h: number,
+  {
+    fit = 'cover',
+    offsetX = 0.5,
+    offsetY = 0.5,
+  }: Pick<ImageProps, 'fit' | 'offsetX' | 'offsetY'> = {},
+) {
+  let nw = iw;
+  let nh = ih;
+  switch (fit) {
+    case 'stretch':
+      return { x: 0, y: 0, width: w, height: h };
+    case 'cover':
+    case 'contain': {
+      const r =
+        fit === 'cover' ? Math.max(w / iw, h / ih) : Math.min(w / iw, h / ih);
+      nw = iw * r;
+      nh = ih * r;
+      break;
+    }
+  }
+  return {
+    x: (w - nw) * clamp01(offsetX),
+    y: (h - nh) * clamp01(offsetY),
+    width: nw,
+    height: nh,
+  };
+}
+
+export function drawBackgroundImage(
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  props: Pick<ImageProps, 'fit' | 'offsetX' | 'offsetY'> = {},
+  w = ctx.canvas.width,
+  h = ctx.canvas.height,
+) {
+  const { fit = 'cover', offsetX, offsetY } = props;
+  if (!img.width || !img.height) return;
+
+  if (fit === 'cover') {
+    drawImageProp({ ctx, img, w, h, offsetX, offsetY });
+    return;
+  }
+
+  const { x, y, width, height } = getImagePlacement(
+    img.width,
+    img.height,
+    w,
+    h,
+    props,
+  );
+
+  if (fit !== 'tile') {
+    ctx.drawImage(img, x, y, width, height);
+    return;
+  }
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(0, 0, w, h);
+  ctx.clip();
+  const startX = x - Math.ceil(x / width) * width;
+  const startY = y - Math.ceil(y / height) * height;
+  for (let tx = startX; tx < w; tx += width) {
+    for (let ty = startY; ty < h; ty += height) {
+      ctx.drawImage(img, tx, ty, width, height);
+    }
+  }
+  ctx.restore();
+}
+
+export function loadImage(
+  src: string,
+  crossOrigin?: ImageProps['crossOrigin'],
+): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    if (crossOrigin !== undefined) {
+      img.crossOrigin = crossOrigin;
+    }
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Unable to load image ${src}`));
+    img.src = src;
+  });
+}
@@ -0,0 +1,147 @@
+import type { Point } from '.';
+import type { Bounds } from './selection';
+
+/**
+ * Which part of the drawing is on screen: a world point `p` shows up at
+ * `p * zoom + (x, y)` in css pixels of the canvas.
+ */
+export type Viewport = {
+  x: number;
+  y: number;
+  zoom: number;
+};
+
+export type ViewportProps = {
+  // wheel, pinch and space-drag navigation
+  panZoom?: boolean;
+  minZoom?: number;
+  maxZoom?: number;
+};
+
+export type ZoomLimits = {
+  minZoom: number;
+  maxZoom: number;
+};
+
+export const DEFAULT_VIEWPORT: Viewport = { x: 0, y: 0, zoom: 1 };
+export const DEFAULT_MIN_ZOOM = 0.1;
+export const DEFAULT_MAX_ZOOM = 10;
+
+// navigation in progress, positions are in screen pixels
+export type ViewportGesture =
+  | { type: 'pan'; origin: Point; view: Viewport }
+  // a and b are the fingers when the pinch started
+  | { type: 'pinch'; a: Point; b: Point; view: Viewport };
+
+export function screenToWorld(p: Point, view: Viewport): Point {
+  return { x: (p.x - view.x) / view.zoom, y: (p.y - view.y) / view.zoom };
+}
+
+export function worldToScreen(p: Point, view: Viewport): Point {
+  return { x: p.x * view.zoom + view.x, y: p.y * view.zoom + view.y };
+}
+
+export function clampZoom(zoom: number, { minZoom, maxZoom }: ZoomLimits) {
+  return Math.min(maxZoom, Math.max(minZoom, zoom));
+}
+
+/**
+ * Zoom while the world point under the screen point `center` stays put.
+ */
+export function zoomAt(
+  view: Viewport,
+  zoom: number,
+  center: Point,
+  limits: ZoomLimits,
+): Viewport {
+  const next = clampZoom(zoom, limits);
+  const world = screenToWorld(center, view);
+  return {
+    x: center.x - world.x * next,
+    y: center.y - world.y * next,
+    zoom: next,
+  };
+}
+
+/**
+ * Follow two fingers: the distance between them zooms and the world point
+ * under their midpoint sticks to it.
+ */
+export function getPinchViewport(
+  start: Extract<ViewportGesture, { type: 'pinch' }>,
+  a: Point,
+  b: Point,
+  limits: ZoomLimits,
+): Viewport {
+  const startDistance = Math.hypot(
+    start.b.x - start.a.x,
+    start.b.y - start.a.y,
+  );
+  const distance = Math.hypot(b.x - a.x, b.y - a.y);
+  const zoom = clampZoom(
+    start.view.zoom * (startDistance ? distance / startDistance : 1),
+    limits,
+  );
+  const world = screenToWorld(
+    { x: (start.a.x + start.b.x) / 2, y: (start.a.y + start.b.y) / 2 },
+    start.view,
+  );
+  return {
+    x: (a.x + b.x) / 2 - world.x * zoom,
+    y: (a.y + b.y) / 2 - world.y * zoom,
+    zoom,
+  };
+}
+
+/**
+ * Viewport showing `bounds` centered in a `width` x `height` canvas.
+ */
+export function fitBounds(
+  bounds: Bounds,
+  width: number,
+  height: number,
+  padding: number,
+  limits: ZoomLimits,
+): Viewport {
+  const contentWidth = bounds.maxX - bounds.minX || 1;
+  const contentHeight = bounds.maxY - bounds.minY || 1;
+  const zoom = clampZoom(
+    Math.min(
+      Math.max(1, width - padding * 2) / contentWidth,
+      Math.max(1, height - padding * 2) / contentHeight,
+    ),
+    limits,
+  );
+  return {
+    x: width / 2 - ((bounds.minX + bounds.maxX) / 2) * zoom,
+    y: height / 2 - ((bounds.minY + bounds.maxY) / 2) * zoom,
+    zoom,
+  };
+}
+
+/**
+ * Make later drawing calls on `ctx` take world coordinates, on a canvas
+ * with `pixelRatio` device pixels per css pixel.
+ */
+export function setViewTransform(
+  ctx: CanvasRenderingContext2D,
+  view: Viewport,
+  pixelRatio = 1,
+) {
+  const scale = view.zoom * pixelRatio;
+  ctx.setTransform(
+    scale,
+    0,
+    0,
+    scale,
+    view.x * pixelRatio,
+    view.y * pixelRatio,
+  );
+}
+
+// wheel deltas in pixels, trackpad pinches arrive as ctrl + wheel with
+// much smaller steps than a mouse wheel
+export function getWheelZoom(ev: WheelEvent) {
+  const delta = ev.deltaMode === 1 ? ev.deltaY * 16 : ev.deltaY;
+  return Math.exp(-delta * (ev.ctrlKey ? 0.01 : 0.0015));
+}
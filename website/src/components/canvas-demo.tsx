@@ -1,10 +1,11 @@
 'use client';
 import { useRef, useState } from 'react';
-import { BrushProps, CanvasDoodle } from 'react-canvas-doodle';
+import { BrushProps, CanvasDoodle, DrawTool } from 'react-canvas-doodle';
 
 export const CanvasDemo = () => {
   const [displayGrid, setDisplayGrid] = useState(true);
   const [readonly, setReadonly] = useState(false);
+  const [tool, setTool] = useState<DrawTool>('brush');
   const doodleRef = useRef(null);
   const [size, setSize] = useState({ width: 300, height: 300 });
   const [brushProps, setBrushProps] = useState<BrushProps>({
@@ -21,6 +22,7 @@ export const CanvasDemo = () => {
           width={size.width}
           height={size.height}
           readonly={readonly}
+          tool={tool}
         />
       </div>
       <div className="flex flex-col gap-2 p-2">
@@ -40,6 +42,21 @@ export const CanvasDemo = () => {
             onChange={(e) => setReadonly(e.currentTarget.checked)}
           />
         </label>
+        <label className="inline">
+          tool:
+          <select
+            value={tool}
+            onChange={(e) => setTool(e.currentTarget.value as DrawTool)}
+          >
+            {['brush', 'line', 'rectangle', 'ellipse', 'arrow', 'polygon'].map(
+              (t) => (
+                <option key={t} value={t}>
+                  {t}
+                </option>
+              ),
+            )}
+          </select>
+        </label>
         <div>
           <input
             type="range"
@@ -72,6 +89,9 @@ export const CanvasDemo = () => {
         <button type="button" onClick={() => doodleRef.current.undo()}>
           undo
         </button>
+        <button type="button" onClick={() => doodleRef.current.redo()}>
+          redo
+        </button>
         <button type="button" onClick={() => doodleRef.current.clear()}>
           clear
         </button>